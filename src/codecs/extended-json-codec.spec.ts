@@ -0,0 +1,122 @@
+import { ExtendedJsonCodec } from './extended-json-codec';
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+function roundTrip(codec: ExtendedJsonCodec, data: unknown): unknown {
+  return codec.decode(JSON.parse(JSON.stringify(codec.encode(data))));
+}
+
+describe('ExtendedJsonCodec', () => {
+  let codec: ExtendedJsonCodec;
+
+  beforeEach(() => {
+    codec = new ExtendedJsonCodec();
+  });
+
+  it('should round-trip Date, Map, Set and BigInt values.', () => {
+    const data = {
+      date: new Date('2020-01-02T03:04:05.006Z'),
+      map: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set([BigInt('9007199254740993')])],
+      ]),
+      list: [new Date(0), 'text', null, 1.5],
+    };
+
+    const decoded = roundTrip(codec, data) as typeof data;
+
+    expect(decoded).toEqual(data);
+    expect(decoded.date).toBeInstanceOf(Date);
+    expect(decoded.map.get(2)).toEqual(new Set([BigInt('9007199254740993')]));
+  });
+
+  it('should round-trip invalid dates.', () => {
+    const decoded = roundTrip(codec, new Date(NaN)) as Date;
+
+    expect(decoded).toBeInstanceOf(Date);
+    expect(decoded.getTime()).toBeNaN();
+  });
+
+  it('should encode values as tagged objects.', () => {
+    expect(codec.encode({ n: BigInt(5) })).toEqual({
+      n: { $type: 'BigInt', value: '5' },
+    });
+  });
+
+  it('should keep plain objects with a "$type" property intact.', () => {
+    const data = { $type: 'Date', value: 'not a date', nested: { $type: 1 } };
+
+    expect(roundTrip(codec, data)).toEqual(data);
+  });
+
+  it('should round-trip class instances with a registered handler.', () => {
+    codec.register<Point>('Point', {
+      test: (value) => value instanceof Point,
+      encode: (point) => [point.x, point.y],
+      decode: (data) => new Point(...(data as [number, number])),
+    });
+
+    const decoded = roundTrip(codec, [new Point(1, 2)]) as Point[];
+
+    expect(decoded[0]).toBeInstanceOf(Point);
+    expect(decoded[0]).toEqual(new Point(1, 2));
+  });
+
+  it('should prefer the last registered handler.', () => {
+    class Range extends Set<number> {}
+    codec.register<Range>('Range', {
+      test: (value) => value instanceof Range,
+      encode: (range) => Array.from(range),
+      decode: (data) => new Range(data as number[]),
+    });
+
+    expect(roundTrip(codec, new Range([1]))).toBeInstanceOf(Range);
+  });
+
+  it('should throw on unknown type tags.', () => {
+    const unregister = codec.register<Point>('Point', {
+      test: (value) => value instanceof Point,
+      encode: (point) => ({ ...point }),
+      decode: (data) => Object.assign(new Point(0, 0), data),
+    });
+    const encoded = codec.encode(new Point(1, 2));
+
+    unregister();
+
+    expect(() => codec.decode(encoded)).toThrow('Unknown type tag "Point".');
+  });
+
+  it('should throw on invalid or reserved tags.', () => {
+    const handler = {
+      test: (): boolean => false,
+      encode: (value: unknown): unknown => value,
+      decode: (data: unknown): unknown => data,
+    };
+
+    expect(() => codec.register('', handler)).toThrow();
+    expect(() => codec.register('Object', handler)).toThrow(
+      'The type tag "Object" is reserved.',
+    );
+  });
+
+  it('should decode "__proto__" keys as own properties.', () => {
+    const data = codec.decode(
+      JSON.parse('{"a":{"__proto__":{"isAdmin":true}}}'),
+    ) as { a: { isAdmin?: boolean } };
+
+    expect(data.a.isAdmin).toBeUndefined();
+    expect(Object.getPrototypeOf(data.a)).toBe(Object.prototype);
+    expect(Object.keys(data.a)).toEqual(['__proto__']);
+  });
+
+  it('should not traverse circular references.', () => {
+    const data: Record<string, unknown> = { date: new Date(0) };
+    data.self = data;
+
+    const encoded = codec.encode(data) as Record<string, unknown>;
+
+    expect(encoded.self).toBe(data);
+  });
+});
@@ -0,0 +1,183 @@
+import { IpcCodec, IpcTypeHandler, RemoveHandler } from '../types';
+import { isPlainObject, mapObject } from '../utils';
+
+// Tag of escaped plain objects which have their own "$type" property.
+const OBJECT_TAG = 'Object';
+
+// Encoded value of a handled type.
+interface TaggedValue {
+  $type: string;
+  value: unknown;
+}
+
+const dateHandler: IpcTypeHandler<Date> = {
+  test: (value) => value instanceof Date,
+  encode: (date) => (isNaN(date.getTime()) ? null : date.toISOString()),
+  decode: (data) => new Date(data === null ? NaN : (data as string)),
+};
+
+const mapHandler: IpcTypeHandler<Map<unknown, unknown>> = {
+  test: (value) => value instanceof Map,
+  encode: (map) => Array.from(map),
+  decode: (data) => new Map(data as Array<[unknown, unknown]>),
+};
+
+const setHandler: IpcTypeHandler<Set<unknown>> = {
+  test: (value) => value instanceof Set,
+  encode: (set) => Array.from(set),
+  decode: (data) => new Set(data as unknown[]),
+};
+
+const bigIntHandler: IpcTypeHandler<bigint> = {
+  test: (value) => typeof value === 'bigint',
+  encode: (value) => value.toString(),
+  decode: (data) => BigInt(data as string),
+};
+
+/**
+ * Codec which round-trips Date, Map, Set and BigInt values over JSON channels.
+ * Other types (e.g. class instances) are supported by registering a type handler by tag.
+ * Values of handled types are encoded as `{ $type: tag, value }`.
+ */
+export class ExtendedJsonCodec implements IpcCodec {
+  private handlers: Map<string, IpcTypeHandler> = new Map();
+
+  // Handlers in the test order, the last registered one is tested first.
+  private testOrder: Array<[string, IpcTypeHandler]> = [];
+
+  constructor() {
+    this.register('Date', dateHandler);
+    this.register('Map', mapHandler);
+    this.register('Set', setHandler);
+    this.register('BigInt', bigIntHandler);
+  }
+
+  /**
+   * Register a type handler. A handler registered with an existing tag replaces the previous one.
+   * Both sides of the channel must register the same tags.
+   *
+   * @param tag Type tag.
+   * @param handler Type handler.
+   * @returns Function to unregister the handler.
+   */
+  public register<T>(tag: string, handler: IpcTypeHandler<T>): RemoveHandler {
+    if (typeof tag !== 'string' || tag.length === 0) {
+      throw new Error('The type tag must be a non-empty string.');
+    }
+
+    if (tag === OBJECT_TAG) {
+      throw new Error(`The type tag "${OBJECT_TAG}" is reserved.`);
+    }
+
+    this.handlers.delete(tag);
+    this.handlers.set(tag, handler as IpcTypeHandler);
+    this.updateTestOrder();
+
+    return (): void => {
+      // Ignore calls for an already replaced handler
+      if (this.handlers.get(tag) === handler) {
+        this.handlers.delete(tag);
+        this.updateTestOrder();
+      }
+    };
+  }
+
+  public encode(data: unknown): unknown {
+    return this.encodeValue(data, new Set());
+  }
+
+  public decode(data: unknown): unknown {
+    if (Array.isArray(data)) {
+      return data.map((item) => this.decode(item));
+    }
+
+    if (!isPlainObject(data)) {
+      return data;
+    }
+
+    if (isTaggedValue(data)) {
+      if (data.$type === OBJECT_TAG) {
+        return mapObject(data.value as object, (item) => this.decode(item));
+      }
+
+      const handler = this.handlers.get(data.$type);
+
+      if (!handler) {
+        throw new Error(`Unknown type tag "${data.$type}".`);
+      }
+
+      return handler.decode(this.decode(data.value));
+    }
+
+    return mapObject(data, (item) => this.decode(item));
+  }
+
+  private encodeValue(value: unknown, seen: Set<unknown>): unknown {
+    if (seen.has(value)) {
+      return value;
+    }
+
+    const entry = this.testOrder.find(([, handler]) => handler.test(value));
+
+    if (entry) {
+      const [tag, handler] = entry;
+      const tagged: TaggedValue = {
+        $type: tag,
+        value: this.encodeNested(value, handler.encode(value), seen),
+      };
+
+      return tagged;
+    }
+
+    if (Array.isArray(value)) {
+      return this.encodeNested(value, value, seen);
+    }
+
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    const encoded = this.encodeNested(value, value, seen);
+
+    // Escape objects which look like tagged values
+    if (Object.prototype.hasOwnProperty.call(value, '$type')) {
+      const escaped: TaggedValue = { $type: OBJECT_TAG, value: encoded };
+      return escaped;
+    }
+
+    return encoded;
+  }
+
+  // Encode the items of an array or the properties of a plain object produced for the source value.
+  private encodeNested(
+    source: unknown,
+    value: unknown,
+    seen: Set<unknown>,
+  ): unknown {
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+      return value;
+    }
+
+    seen.add(source);
+
+    const encode = (item: unknown): unknown => this.encodeValue(item, seen);
+    const encoded = Array.isArray(value)
+      ? value.map(encode)
+      : mapObject(value as object, encode);
+
+    seen.delete(source);
+
+    return encoded;
+  }
+
+  private updateTestOrder(): void {
+    this.testOrder = Array.from(this.handlers).reverse();
+  }
+}
+
+function isTaggedValue(value: object): value is TaggedValue {
+  return (
+    typeof (value as Partial<TaggedValue>).$type === 'string' &&
+    Object.prototype.hasOwnProperty.call(value, 'value')
+  );
+}
@@ -0,0 +1 @@
+export * from './extended-json-codec';
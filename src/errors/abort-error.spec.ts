@@ -0,0 +1,16 @@
+import { AbortError } from './abort-error';
+
+describe('AbortError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new AbortError('Abort message.');
+
+    expect(err.name).toEqual('AbortError');
+    expect(err.message).toEqual('Abort message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new AbortError();
+
+    expect(err.message).toEqual('The operation was aborted.');
+  });
+});
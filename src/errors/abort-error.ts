@@ -0,0 +1,6 @@
+export class AbortError extends Error {
+  constructor(message = 'The operation was aborted.') {
+    super(message);
+    this.name = AbortError.name;
+  }
+}
@@ -0,0 +1,24 @@
+import { ChannelClosedError } from './channel-closed-error';
+
+describe('ChannelClosedError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new ChannelClosedError('Channel closed message.');
+
+    expect(err.name).toEqual('ChannelClosedError');
+    expect(err.message).toEqual('Channel closed message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new ChannelClosedError();
+
+    expect(err.message).toEqual('The IPC channel is closed.');
+  });
+
+  it('should keep the original error as a not enumerable cause.', function () {
+    const cause = new Error('EPIPE');
+    const err = new ChannelClosedError(undefined, cause);
+
+    expect(err.cause).toBe(cause);
+    expect(Object.keys(err)).not.toContain('cause');
+  });
+});
@@ -0,0 +1,18 @@
+export class ChannelClosedError extends Error {
+  cause?: unknown;
+
+  constructor(message = 'The IPC channel is closed.', cause?: unknown) {
+    super(message);
+    this.name = ChannelClosedError.name;
+
+    if (cause !== undefined) {
+      // Not enumerable, like the "cause" option of the Error constructor
+      Object.defineProperty(this, 'cause', {
+        value: cause,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+      });
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { ChildExitedError } from './child-exited-error';
+
+describe('ChildExitedError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new ChildExitedError('Child exited message.');
+
+    expect(err.name).toEqual('ChildExitedError');
+    expect(err.message).toEqual('Child exited message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new ChildExitedError();
+
+    expect(err.message).toEqual('The child process exited before replying.');
+  });
+});
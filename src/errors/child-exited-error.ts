@@ -0,0 +1,6 @@
+export class ChildExitedError extends Error {
+  constructor(message = 'The child process exited before replying.') {
+    super(message);
+    this.name = ChildExitedError.name;
+  }
+}
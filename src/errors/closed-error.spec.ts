@@ -0,0 +1,16 @@
+import { ClosedError } from './closed-error';
+
+describe('ClosedError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new ClosedError('Closed message.');
+
+    expect(err.name).toEqual('ClosedError');
+    expect(err.message).toEqual('Closed message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new ClosedError();
+
+    expect(err.message).toEqual('IPC instance is closed.');
+  });
+});
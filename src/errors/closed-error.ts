@@ -0,0 +1,6 @@
+export class ClosedError extends Error {
+  constructor(message = 'IPC instance is closed.') {
+    super(message);
+    this.name = ClosedError.name;
+  }
+}
@@ -1,2 +1,9 @@
 export * from './timeout-error';
 export * from './remote-error';
+export * from './closed-error';
+export * from './abort-error';
+export * from './validation-error';
+export * from './peer-unavailable-error';
+export * from './overloaded-error';
+export * from './child-exited-error';
+export * from './channel-closed-error';
@@ -0,0 +1,16 @@
+import { OverloadedError } from './overloaded-error';
+
+describe('OverloadedError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new OverloadedError('Overloaded message.');
+
+    expect(err.name).toEqual('OverloadedError');
+    expect(err.message).toEqual('Overloaded message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new OverloadedError();
+
+    expect(err.message).toEqual('Too many pending requests.');
+  });
+});
@@ -0,0 +1,6 @@
+export class OverloadedError extends Error {
+  constructor(message = 'Too many pending requests.') {
+    super(message);
+    this.name = OverloadedError.name;
+  }
+}
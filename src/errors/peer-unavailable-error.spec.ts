@@ -0,0 +1,16 @@
+import { PeerUnavailableError } from './peer-unavailable-error';
+
+describe('PeerUnavailableError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new PeerUnavailableError('Unavailable message.');
+
+    expect(err.name).toEqual('PeerUnavailableError');
+    expect(err.message).toEqual('Unavailable message.');
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new PeerUnavailableError();
+
+    expect(err.message).toEqual('Peer is unavailable.');
+  });
+});
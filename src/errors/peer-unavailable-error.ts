@@ -0,0 +1,6 @@
+export class PeerUnavailableError extends Error {
+  constructor(message = 'Peer is unavailable.') {
+    super(message);
+    this.name = PeerUnavailableError.name;
+  }
+}
@@ -1,5 +1,8 @@
 import type { SerializedError } from '../types';
 
+/** Error code of the remote error sent when the RPC endpoint does not exist. */
+export const RPC_NOT_FOUND_CODE = 'ERR_RPC_NOT_FOUND';
+
 export class RemoteError extends Error {
   remoteError: SerializedError;
 
@@ -0,0 +1,17 @@
+import { ValidationError } from './validation-error';
+
+describe('ValidationError', function () {
+  it('should contain all expected properties.', function () {
+    const err = new ValidationError('Validation message.', [{ path: ['a'] }]);
+
+    expect(err.name).toEqual('ValidationError');
+    expect(err.message).toEqual('Validation message.');
+    expect(err.details).toEqual([{ path: ['a'] }]);
+  });
+
+  it('should contain default messsage.', function () {
+    const err = new ValidationError();
+
+    expect(err.message).toEqual('Validation error.');
+  });
+});
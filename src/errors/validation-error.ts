@@ -0,0 +1,9 @@
+export class ValidationError extends Error {
+  details?: unknown;
+
+  constructor(message = 'Validation error.', details?: unknown) {
+    super(message);
+    this.name = ValidationError.name;
+    this.details = details;
+  }
+}
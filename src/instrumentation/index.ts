@@ -0,0 +1,2 @@
+export * from './metrics-collector';
+export * from './prometheus';
@@ -0,0 +1,88 @@
+import { TimeoutError } from '../errors';
+import { MetricsCollector } from './metrics-collector';
+
+describe('MetricsCollector', function () {
+  it('should count calls, in-flight calls and errors.', function () {
+    const collector = new MetricsCollector();
+    const finishFirst = collector.startCall('act', 'job');
+    const finishSecond = collector.startCall('act', 'job');
+
+    expect(collector.snapshot().act.job).toMatchObject({
+      calls: 2,
+      inFlight: 2,
+    });
+
+    finishFirst();
+    finishSecond(new TimeoutError());
+    finishSecond(new Error('Ignored.'));
+
+    expect(collector.snapshot().act.job).toMatchObject({
+      calls: 2,
+      inFlight: 0,
+      timeouts: 1,
+      errors: { TimeoutError: 1 },
+    });
+  });
+
+  it('should record latencies into histogram buckets.', function () {
+    const now = jest.spyOn(Date, 'now');
+    const collector = new MetricsCollector([100, 10]);
+
+    [5, 50, 500].forEach((latency) => {
+      now.mockReturnValueOnce(0).mockReturnValueOnce(latency);
+      collector.startCall('handle', 'job')();
+    });
+    now.mockRestore();
+
+    expect(collector.snapshot().handle.job.latency).toEqual({
+      buckets: [10, 100],
+      counts: [1, 1, 1],
+      sum: 555,
+      count: 3,
+    });
+  });
+
+  it('should count events.', function () {
+    const collector = new MetricsCollector();
+
+    collector.countEvent('emitted', 'tick');
+    collector.countEvent('emitted', 'tick');
+    collector.countEvent('received', 'tock');
+
+    expect(collector.snapshot().events).toEqual({
+      emitted: { tick: 2 },
+      received: { tock: 1 },
+    });
+  });
+
+  it('should return a snapshot not affected by later changes.', function () {
+    const collector = new MetricsCollector();
+    collector.startCall('act', 'job')();
+
+    const snapshot = collector.snapshot();
+    collector.startCall('act', 'job')(new Error());
+
+    expect(snapshot.act.job.calls).toEqual(1);
+    expect(snapshot.act.job.errors).toEqual({});
+    expect(snapshot.act.job.latency.count).toEqual(1);
+  });
+
+  it('should count names of Object.prototype properties.', function () {
+    const collector = new MetricsCollector();
+    const error = new Error();
+    error.name = '__proto__';
+
+    collector.startCall('act', 'toString')(error);
+    collector.startCall('handle', 'constructor')();
+    collector.countEvent('received', '__proto__');
+
+    const snapshot = collector.snapshot();
+    const act = snapshot.act[String('toString')];
+
+    expect(act).toMatchObject({ calls: 1, errors: { ['__proto__']: 1 } });
+    expect(Object.keys(act.errors)).toEqual(['__proto__']);
+    expect(snapshot.handle.constructor).toMatchObject({ calls: 1 });
+    expect(Object.keys(snapshot.events.received)).toEqual(['__proto__']);
+    expect(Object.prototype.toString).not.toHaveProperty('calls');
+  });
+});
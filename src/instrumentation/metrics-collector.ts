@@ -0,0 +1,148 @@
+import { TimeoutError } from '../errors';
+import { IpcMetrics, IpcRpcMetrics, IpcRpcSide } from '../types';
+import { setOwnProperty } from '../utils/plain-object';
+
+/** Default upper bounds of the latency histogram buckets in miliseconds. */
+export const DEFAULT_LATENCY_BUCKETS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+// Metrics of an RPC, with the errors by name in a Map.
+interface RpcMetrics extends Omit<IpcRpcMetrics, 'errors'> {
+  errors: Map<string, number>;
+}
+
+/**
+ * Collects RPC and event metrics of a NodeSimpleIpc instance.
+ * Metrics are stored in Maps by name, so names like "toString" or "__proto__" are counted like any other.
+ */
+export class MetricsCollector {
+  private rpcs: Record<IpcRpcSide, Map<string, RpcMetrics>> = {
+    act: new Map(),
+    handle: new Map(),
+  };
+
+  private events: Record<'emitted' | 'received', Map<string, number>> = {
+    emitted: new Map(),
+    received: new Map(),
+  };
+
+  /**
+   * Constructor.
+   *
+   * @param buckets Upper bounds of the latency histogram buckets in miliseconds.
+   */
+  constructor(private buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record the start of an RPC call.
+   *
+   * @param side Side of the call.
+   * @param name RPC name.
+   * @returns Function to call when the call is finished, with the error if it failed.
+   */
+  public startCall(side: IpcRpcSide, name: string): (err?: unknown) => void {
+    const rpc = this.rpcMetrics(side, name);
+    const startedAt = Date.now();
+    let finished = false;
+
+    rpc.calls++;
+    rpc.inFlight++;
+
+    return (err?: unknown): void => {
+      if (finished) {
+        return;
+      }
+
+      const latency = Date.now() - startedAt;
+      const bucket = this.buckets.findIndex((bound) => latency <= bound);
+
+      finished = true;
+      rpc.inFlight--;
+      rpc.latency.counts[bucket === -1 ? this.buckets.length : bucket]++;
+      rpc.latency.sum += latency;
+      rpc.latency.count++;
+
+      if (err !== undefined) {
+        const errorName = err instanceof Error ? err.name : 'Error';
+        rpc.errors.set(errorName, (rpc.errors.get(errorName) ?? 0) + 1);
+
+        if (err instanceof TimeoutError) {
+          rpc.timeouts++;
+        }
+      }
+    };
+  }
+
+  /**
+   * Count an emitted or received event.
+   *
+   * @param direction Event direction.
+   * @param name Event name.
+   */
+  public countEvent(direction: 'emitted' | 'received', name: string): void {
+    const events = this.events[direction];
+    events.set(name, (events.get(name) ?? 0) + 1);
+  }
+
+  /**
+   * Returns a copy of the collected metrics.
+   */
+  public snapshot(): IpcMetrics {
+    const copyCount = (count: number): number => count;
+    const copyRpc = (rpc: RpcMetrics): IpcRpcMetrics => ({
+      ...rpc,
+      errors: toRecord(rpc.errors, copyCount),
+      latency: {
+        ...rpc.latency,
+        buckets: [...rpc.latency.buckets],
+        counts: [...rpc.latency.counts],
+      },
+    });
+
+    return {
+      act: toRecord(this.rpcs.act, copyRpc),
+      handle: toRecord(this.rpcs.handle, copyRpc),
+      events: {
+        emitted: toRecord(this.events.emitted, copyCount),
+        received: toRecord(this.events.received, copyCount),
+      },
+    };
+  }
+
+  private rpcMetrics(side: IpcRpcSide, name: string): RpcMetrics {
+    const rpcs = this.rpcs[side];
+    let rpc = rpcs.get(name);
+
+    if (!rpc) {
+      rpc = {
+        calls: 0,
+        errors: new Map(),
+        timeouts: 0,
+        inFlight: 0,
+        latency: {
+          buckets: this.buckets,
+          counts: new Array(this.buckets.length + 1).fill(0),
+          sum: 0,
+          count: 0,
+        },
+      };
+      rpcs.set(name, rpc);
+    }
+
+    return rpc;
+  }
+}
+
+function toRecord<T, R>(
+  map: Map<string, T>,
+  copy: (value: T) => R,
+): Record<string, R> {
+  const record: Record<string, R> = {};
+
+  map.forEach((value, key) => setOwnProperty(record, key, copy(value)));
+
+  return record;
+}
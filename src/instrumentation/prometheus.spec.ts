@@ -0,0 +1,43 @@
+import { MetricsCollector } from './metrics-collector';
+import { formatPrometheus } from './prometheus';
+
+describe('formatPrometheus()', function () {
+  it('should format RPC and event metrics.', function () {
+    const now = jest.spyOn(Date, 'now');
+    const collector = new MetricsCollector([10, 100]);
+
+    now.mockReturnValueOnce(0).mockReturnValueOnce(50);
+    collector.startCall('act', 'job')(new Error('Failed.'));
+    now.mockRestore();
+    collector.countEvent('received', 'say "hi"');
+
+    const text = formatPrometheus(collector.snapshot());
+
+    expect(text.split('\n')).toEqual(
+      expect.arrayContaining([
+        '# TYPE ipc_rpc_calls_total counter',
+        'ipc_rpc_calls_total{side="act",name="job"} 1',
+        'ipc_rpc_errors_total{side="act",name="job",error="Error"} 1',
+        'ipc_rpc_timeouts_total{side="act",name="job"} 0',
+        'ipc_rpc_in_flight{side="act",name="job"} 0',
+        '# TYPE ipc_rpc_duration_seconds histogram',
+        'ipc_rpc_duration_seconds_bucket{side="act",name="job",le="0.01"} 0',
+        'ipc_rpc_duration_seconds_bucket{side="act",name="job",le="0.1"} 1',
+        'ipc_rpc_duration_seconds_bucket{side="act",name="job",le="+Inf"} 1',
+        'ipc_rpc_duration_seconds_sum{side="act",name="job"} 0.05',
+        'ipc_rpc_duration_seconds_count{side="act",name="job"} 1',
+        'ipc_events_total{direction="received",name="say \\"hi\\""} 1',
+      ]),
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should use the prefix for metric names.', function () {
+    const collector = new MetricsCollector();
+    collector.countEvent('emitted', 'tick');
+
+    expect(formatPrometheus(collector.snapshot(), 'app_ipc')).toContain(
+      'app_ipc_events_total{direction="emitted",name="tick"} 1',
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { IpcMetrics, IpcRpcMetrics } from '../types';
+
+/**
+ * Format metrics in the Prometheus text exposition format.
+ * Latencies are converted to seconds.
+ *
+ * @param metrics Metrics returned by getMetrics().
+ * @param prefix Prefix of the metric names.
+ * @returns Prometheus text.
+ */
+export function formatPrometheus(metrics: IpcMetrics, prefix = 'ipc'): string {
+  const lines: string[] = [];
+  const rpcs: Array<[string, string, IpcRpcMetrics]> = [
+    ...Object.keys(metrics.act).map((name): [string, string, IpcRpcMetrics] => [
+      'act',
+      name,
+      metrics.act[name],
+    ]),
+    ...Object.keys(metrics.handle).map(
+      (name): [string, string, IpcRpcMetrics] => [
+        'handle',
+        name,
+        metrics.handle[name],
+      ],
+    ),
+  ];
+
+  const header = (name: string, type: string, help: string): void => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+  };
+  const sample = (
+    name: string,
+    labels: Record<string, string>,
+    value: number,
+  ): void => {
+    lines.push(`${prefix}_${name}{${formatLabels(labels)}} ${value}`);
+  };
+
+  header('rpc_calls_total', 'counter', 'Number of RPC calls.');
+  rpcs.forEach(([side, name, rpc]) =>
+    sample('rpc_calls_total', { side, name }, rpc.calls),
+  );
+
+  header('rpc_errors_total', 'counter', 'Number of failed RPC calls.');
+  rpcs.forEach(([side, name, rpc]) =>
+    Object.keys(rpc.errors).forEach((error) =>
+      sample('rpc_errors_total', { side, name, error }, rpc.errors[error]),
+    ),
+  );
+
+  header('rpc_timeouts_total', 'counter', 'Number of timed out RPC calls.');
+  rpcs.forEach(([side, name, rpc]) =>
+    sample('rpc_timeouts_total', { side, name }, rpc.timeouts),
+  );
+
+  header('rpc_in_flight', 'gauge', 'Number of RPC calls in progress.');
+  rpcs.forEach(([side, name, rpc]) =>
+    sample('rpc_in_flight', { side, name }, rpc.inFlight),
+  );
+
+  header(
+    'rpc_duration_seconds',
+    'histogram',
+    'Duration of finished RPC calls.',
+  );
+  rpcs.forEach(([side, name, { latency }]) => {
+    let cumulative = 0;
+
+    latency.buckets.forEach((bound, i) => {
+      cumulative += latency.counts[i];
+      sample(
+        'rpc_duration_seconds_bucket',
+        { side, name, le: String(bound / 1000) },
+        cumulative,
+      );
+    });
+    sample(
+      'rpc_duration_seconds_bucket',
+      { side, name, le: '+Inf' },
+      latency.count,
+    );
+    sample('rpc_duration_seconds_sum', { side, name }, latency.sum / 1000);
+    sample('rpc_duration_seconds_count', { side, name }, latency.count);
+  });
+
+  header('events_total', 'counter', 'Number of emitted and received events.');
+  (['emitted', 'received'] as const).forEach((direction) =>
+    Object.keys(metrics.events[direction]).forEach((name) =>
+      sample(
+        'events_total',
+        { direction, name },
+        metrics.events[direction][name],
+      ),
+    ),
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  return Object.keys(labels)
+    .map((key) => `${key}="${escapeLabelValue(labels[key])}"`)
+    .join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
@@ -0,0 +1,82 @@
+import { createClient, IpcClient } from './ipc-client';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import { FakeIpc } from './utils/fake-proc-ipc';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+type Contract = {
+  rpc: {
+    getUser: (id: string) => User;
+    getTime: () => Promise<number>;
+  };
+  events: {
+    tick: number;
+    ready: undefined;
+  };
+};
+
+describe('IpcClient', function () {
+  let master: IpcClient<Contract>, child: IpcClient<Contract>;
+
+  beforeEach(() => {
+    const fakeIpc = new FakeIpc();
+    master = createClient<Contract>(new NodeSimpleIpc(fakeIpc.master));
+    child = createClient<Contract>(new NodeSimpleIpc(fakeIpc.child));
+
+    child.add('getUser', (id) => ({ id, name: `User ${id}` }));
+    child.add('getTime', async () => 123);
+  });
+
+  it('should call contract RPC endpoints with act().', async () => {
+    const user: User = await master.act('getUser', '1');
+
+    expect(user).toEqual({ id: '1', name: 'User 1' });
+    await expect(master.act('getTime')).resolves.toEqual(123);
+  });
+
+  it('should call contract RPC endpoints with the rpc proxy.', async () => {
+    await expect(master.rpc.getUser('2')).resolves.toEqual({
+      id: '2',
+      name: 'User 2',
+    });
+    await expect(master.rpc.getTime()).resolves.toEqual(123);
+  });
+
+  it('should not look like a thenable.', () => {
+    expect((master.rpc as unknown as Record<string, unknown>).then).toBe(
+      undefined,
+    );
+  });
+
+  it('should send and receive contract events.', () => {
+    const onTick = jest.fn((n: number) => n);
+    const onReady = jest.fn();
+
+    master.on('tick', onTick);
+    master.once('ready', onReady);
+    child.emit('tick', 1);
+    child.emit('ready');
+    child.emit('ready');
+
+    expect(onTick).toBeCalledWith(1);
+    expect(onReady).toBeCalledTimes(1);
+  });
+
+  it('should reject names and data not declared in the contract at compile time.', () => {
+    const typeChecks = (): void => {
+      // @ts-expect-error unknown RPC name
+      master.act('getUsr', '1');
+      // @ts-expect-error invalid request data
+      master.act('getUser', 1);
+      // @ts-expect-error invalid event data
+      master.emit('tick', 'one');
+      // @ts-expect-error unknown event name
+      master.on('tock', () => undefined);
+    };
+
+    expect(typeof typeChecks).toBe('function');
+  });
+});
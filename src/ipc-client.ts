@@ -0,0 +1,164 @@
+import { NodeSimpleIpc } from './node-simple-ipc';
+import {
+  IpcContract,
+  IpcActOptions,
+  IpcRpcName,
+  IpcRpcArgs,
+  IpcRpcOutput,
+  IpcRpcHandler,
+  IpcRpcAddOptions,
+  IpcRpcProxy,
+  IpcEventName,
+  IpcEventArgs,
+  IpcEventHandler,
+  IpcContractEventOptions,
+  IpcEmitResult,
+  RemoveHandler,
+} from './types';
+
+/**
+ * Type-safe facade of NodeSimpleIpc for a contract of RPC endpoints and events.
+ * Names, data and response types of act(), add(), on(), once() and emit() are checked against the contract.
+ */
+export class IpcClient<C extends IpcContract> {
+  /**
+   * Object with a method for every contract RPC, e.g. client.rpc.getUser(id).
+   */
+  public readonly rpc: IpcRpcProxy<C>;
+
+  /**
+   * Constructor.
+   *
+   * @param ipc NodeSimpleIpc instance.
+   */
+  constructor(public readonly ipc: NodeSimpleIpc) {
+    this.rpc = new Proxy({} as IpcRpcProxy<C>, {
+      get: (_, prop): unknown => {
+        // Do not look like a thenable
+        if (typeof prop !== 'string' || prop === 'then') {
+          return undefined;
+        }
+
+        return (data?: unknown, options?: IpcActOptions): Promise<unknown> =>
+          this.ipc.act(prop, data, options);
+      },
+    });
+  }
+
+  /**
+   * Start a RPC request.
+   *
+   * @param name RPC name.
+   * @param args Request data and options.
+   * @returns The response.
+   */
+  public act<N extends IpcRpcName<C>>(
+    name: N,
+    ...args: IpcRpcArgs<C, N>
+  ): Promise<IpcRpcOutput<C, N>> {
+    const [data, options] = args;
+
+    return this.ipc.act(name, data, options);
+  }
+
+  /**
+   * Add a RPC endpoint.
+   *
+   * @param name RPC name.
+   * @param handlerFn Handler function.
+   * @param options RPC endpoint options.
+   * @returns Function you can call to remove the RPC endpoint.
+   */
+  public add<N extends IpcRpcName<C>>(
+    name: N,
+    handlerFn: IpcRpcHandler<C, N>,
+    options?: IpcRpcAddOptions<C, N>,
+  ): RemoveHandler {
+    return this.ipc.add(name, handlerFn, options);
+  }
+
+  /**
+   * Adds the listener function to the end of the listeners.
+   *
+   * @param event Event name.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public on<E extends IpcEventName<C>>(
+    event: E,
+    handler: IpcEventHandler<C, E>,
+    options?: IpcContractEventOptions<C, E>,
+  ): RemoveHandler {
+    return this.ipc.on(event, handler, options);
+  }
+
+  /**
+   * Adds a one-time listener function for the event.
+   *
+   * @param event Event name.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public once<E extends IpcEventName<C>>(
+    event: E,
+    handler: IpcEventHandler<C, E>,
+    options?: IpcContractEventOptions<C, E>,
+  ): RemoveHandler {
+    return this.ipc.once(event, handler, options);
+  }
+
+  /**
+   * Removes the specified listener from the listener array.
+   *
+   * @param event Event name.
+   * @param handler Listener function.
+   */
+  public off<E extends IpcEventName<C>>(
+    event: E,
+    handler: IpcEventHandler<C, E>,
+  ): void {
+    this.ipc.off(event, handler);
+  }
+
+  /**
+   * Send an event over IPC.
+   *
+   * @param event Event name.
+   * @param args Event data.
+   * @returns The sending result.
+   */
+  public emit<E extends IpcEventName<C>>(
+    event: E,
+    ...args: IpcEventArgs<C, E>
+  ): IpcEmitResult {
+    return this.ipc.emit(event, args[0]);
+  }
+
+  /**
+   * Send an event over IPC and wait until it is sent.
+   *
+   * @param event Event name.
+   * @param args Event data.
+   * @returns Promise resolved with the sending result when the event was sent.
+   */
+  public emitAsync<E extends IpcEventName<C>>(
+    event: E,
+    ...args: IpcEventArgs<C, E>
+  ): Promise<IpcEmitResult> {
+    return this.ipc.emitAsync(event, args[0]);
+  }
+}
+
+/**
+ * Create a type-safe client for a contract.
+ *
+ * @param ipc NodeSimpleIpc instance. By default a new instance for "process" is created.
+ * @returns Typed client.
+ */
+export function createClient<C extends IpcContract>(
+  ipc: NodeSimpleIpc = new NodeSimpleIpc(),
+): IpcClient<C> {
+  return new IpcClient<C>(ipc);
+}
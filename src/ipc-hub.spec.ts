@@ -0,0 +1,200 @@
+import { IpcHub } from './ipc-hub';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import { IpcCallbackStub, IpcDataType } from './types';
+import { FakeIpc } from './utils/fake-proc-ipc';
+
+describe('IpcHub', function () {
+  let hub: IpcHub, fakeIpcs: FakeIpc[], children: NodeSimpleIpc[];
+
+  const createHub = (balance?: 'round-robin' | 'least-busy'): void => {
+    hub = new IpcHub({ balance });
+    fakeIpcs = [new FakeIpc(), new FakeIpc(), new FakeIpc()];
+    children = fakeIpcs.map((fakeIpc, i) => {
+      hub.addPeer(`worker${i}`, fakeIpc.master);
+      return new NodeSimpleIpc(fakeIpc.child);
+    });
+  };
+
+  beforeEach(() => createHub());
+
+  it('should send a request to a named peer.', () => {
+    expect.assertions(1);
+
+    children.forEach((child, i) => child.add('whoami', () => i));
+
+    return expect(hub.act('worker1', 'whoami')).resolves.toEqual(1);
+  });
+
+  it('should broadcast an event to all peers.', () => {
+    const mockCallback = jest.fn();
+
+    children.forEach((child) => child.on('tick', mockCallback));
+    hub.emit('tick', 1);
+
+    expect(mockCallback).toBeCalledTimes(3);
+  });
+
+  it('should balance requests in round-robin order across peers which registered the RPC.', async () => {
+    children[0].add('work', () => 0);
+    children[2].add('work', () => 2);
+
+    const results = await Promise.all([
+      hub.actAny('work'),
+      hub.actAny('work'),
+      hub.actAny('work'),
+      hub.actAny('work'),
+    ]);
+
+    expect(results).toEqual([0, 2, 0, 2]);
+  });
+
+  it('should balance requests to the least busy peer.', async () => {
+    createHub('least-busy');
+
+    children[0].add('work', () => new Promise((r) => setTimeout(r, 10, 0)));
+    children[1].add('work', () => new Promise((r) => setTimeout(r, 10, 1)));
+
+    const first = hub.actAny('work');
+    const second = hub.actAny('work');
+
+    await expect(Promise.all([first, second])).resolves.toEqual([0, 1]);
+  });
+
+  it('should reject a load balanced request when no peer provides the RPC.', () => {
+    expect.assertions(1);
+
+    return expect(hub.actAny('nothing')).rejects.toThrow(
+      'No peer provides RPC "nothing".',
+    );
+  });
+
+  it('should forward a request from a child to a sibling child.', async () => {
+    children[2].add('math_add', ([a, b]: [number, number]) => a + b);
+
+    await expect(children[0].act('math_add', [2, 3])).resolves.toEqual(5);
+  });
+
+  it('should forward progress notifications between sibling children.', async () => {
+    const onProgress = jest.fn();
+    children[2].add('job', (_: unknown, ctx) => {
+      ctx.emitToCaller('step', 1);
+      return 'done';
+    });
+
+    await expect(
+      children[0].act('job', undefined, { onProgress }),
+    ).resolves.toBe('done');
+    expect(onProgress).toBeCalledWith('step', 1);
+  });
+
+  it('should forward callback calls and releases between sibling children.', async () => {
+    const onProgress = jest.fn((percent: number) => percent * 2);
+    children[2].add(
+      'work',
+      async (data: { onProgress: IpcCallbackStub<[number], number> }) => {
+        const result = await data.onProgress(50);
+        data.onProgress.dispose();
+        return result;
+      },
+    );
+    const sentToChild0: unknown[] = [];
+    fakeIpcs[0].child.on('message', (msg) => sentToChild0.push(msg));
+
+    await expect(children[0].act('work', { onProgress })).resolves.toBe(100);
+    expect(onProgress).toBeCalledWith(50);
+    expect(sentToChild0).toContainEqual(
+      expect.objectContaining({ type: IpcDataType.CallbackRelease }),
+    );
+  });
+
+  it('should forward fragmented requests between sibling children.', async () => {
+    hub.close();
+    hub = new IpcHub({ ipcOptions: { maxFrameSize: 300 } });
+    fakeIpcs = [new FakeIpc(), new FakeIpc(), new FakeIpc()];
+    children = fakeIpcs.map((fakeIpc, i) => {
+      hub.addPeer(`worker${i}`, fakeIpc.master);
+      return new NodeSimpleIpc(fakeIpc.child, { maxFrameSize: 300 });
+    });
+    const frameSizes: number[] = [];
+    fakeIpcs[2].child.on('message', (msg) =>
+      frameSizes.push(JSON.stringify(msg).length),
+    );
+    children[2].add('echo', (data: unknown) => data);
+
+    const payload = 'x'.repeat(5000);
+
+    await expect(children[0].act('echo', payload)).resolves.toEqual(payload);
+    expect(Math.max(...frameSizes)).toBeLessThanOrEqual(300);
+  });
+
+  it('should forward batched requests to sibling children.', async () => {
+    const batchChild = new NodeSimpleIpc(fakeIpcs[0].child, { batch: true });
+    children[1].add('double', (n: number) => n * 2);
+    children[2].add('triple', (n: number) => n * 3);
+    hub.peer('worker0').add('negate', (n: number) => -n);
+
+    await expect(
+      Promise.all([
+        batchChild.act('double', 1),
+        batchChild.act('triple', 1),
+        batchChild.act('negate', 1),
+      ]),
+    ).resolves.toEqual([2, 3, -1]);
+  });
+
+  it('should prefer RPC endpoints registered on the hub.', async () => {
+    hub.peer('worker0').add('whoami', () => 'hub');
+    children[1].add('whoami', () => 'sibling');
+
+    await expect(children[0].act('whoami')).resolves.toEqual('hub');
+  });
+
+  it('should reject forwarded requests when the target peer disconnects.', async () => {
+    children[1].add('never_reply', () => new Promise(() => undefined));
+
+    const pending = children[0].act('never_reply');
+    fakeIpcs[1].master.emit('exit');
+
+    await expect(pending).rejects.toThrow('Peer "worker1" disconnected.');
+    expect(hub.peerIds).toEqual(['worker0', 'worker2']);
+  });
+
+  it('should cancel forwarded requests when the calling peer disconnects.', async () => {
+    createHub('least-busy');
+    const aborted = jest.fn();
+    children[1].add(
+      'work',
+      (_: unknown, ctx) =>
+        new Promise((resolve) => {
+          ctx.signal.addEventListener('abort', aborted);
+          setTimeout(resolve, 10, 1);
+        }),
+    );
+    children[2].add('work', () => 2);
+
+    children[0].act('work').catch(() => undefined);
+    fakeIpcs[0].master.emit('exit');
+
+    expect(aborted).toBeCalledTimes(1);
+    // The disconnected request does not count in the load of the target peer
+    await expect(hub.actAny('work')).resolves.toBe(1);
+  });
+
+  it('should throw an error when the peer id already exists.', () => {
+    expect(() => hub.addPeer('worker0', new FakeIpc().master)).toThrow(
+      'The peer with id "worker0" already exists.',
+    );
+  });
+
+  it('should announce RPC endpoints of sibling peers.', async () => {
+    const ready = children[0].waitFor('sibling_rpc');
+
+    children[1].add('sibling_rpc', () => 'hi');
+
+    await expect(ready).resolves.toBeUndefined();
+    await expect(children[0].listRemote()).resolves.toEqual(['sibling_rpc']);
+    await expect(hub.peer('worker1').listRemote()).resolves.toEqual([
+      'sibling_rpc',
+    ]);
+  });
+});
@@ -0,0 +1,565 @@
+import { EventEmitter } from 'events';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import {
+  IpcActOptions,
+  IpcCancel,
+  IpcDataType,
+  IpcHubOptions,
+  IpcInput,
+  IpcOutput,
+  IpcProcess,
+  IpcRpcNames,
+  IpcSendCallback,
+  IpcSerialization,
+  RemoveHandler,
+} from './types';
+import {
+  assertValidIpcName,
+  detectSerialization,
+  reassembleFragment,
+  FragmentAssembler,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  DEFAULT_REASSEMBLY_TIMEOUT,
+  isIpcBatch,
+  isIpcCallbackRelease,
+  isIpcFragment,
+  isIpcCancel,
+  isIpcInput,
+  isIpcOutput,
+  isIpcProgress,
+  isIpcRpcNames,
+  isIpcStreamChunk,
+  isIpcStreamEnd,
+  isIpcStreamError,
+  isIpcStreamPull,
+  decodeBinaryFrame,
+  CALLBACK_RPC_NAME,
+} from './utils';
+
+// IPC process used by the NodeSimpleIpc instance of a peer. Receives only the frames not routed by the hub.
+class HubLink extends EventEmitter implements IpcProcess {
+  constructor(
+    private sendCallback: (data: object, callback?: IpcSendCallback) => boolean,
+    public readonly serialization: IpcSerialization,
+  ) {
+    super();
+  }
+
+  send(data: object, callback?: IpcSendCallback): boolean {
+    return this.sendCallback(data, callback);
+  }
+}
+
+interface HubPeer {
+  id: string;
+  ipcProcess: IpcProcess;
+  link: HubLink;
+  ipc: NodeSimpleIpc;
+  // RPC names registered by the peer.
+  remoteNames: Set<string>;
+  // Number of in-flight requests handled by the peer.
+  active: number;
+  // Reassembles the fragmented messages of the peer before routing.
+  assembler: FragmentAssembler;
+  messageListener: (msg: unknown) => void;
+  closeListener: () => void;
+}
+
+// A request forwarded from one peer to another.
+interface HubRoute {
+  from: HubPeer;
+  to: HubPeer;
+  name: string;
+  // Ids of the functions passed in the request data, called back by the target peer.
+  callbacks: string[];
+}
+
+/**
+ * Hub for many IPC peers (e.g. forked children) registered under ids.
+ * Supports requests to a peer, load balanced requests, broadcast events
+ * and forwards requests between peers (sibling to sibling RPC).
+ */
+export class IpcHub {
+  private options: Required<Omit<IpcHubOptions, 'ipcOptions'>> & IpcHubOptions;
+
+  private peers: Map<string, HubPeer> = new Map();
+
+  // Forwarded requests by correlation id.
+  private routes: Map<string, HubRoute> = new Map();
+
+  // Forwarded requests by the ids of their callbacks.
+  private callbackRoutes: Map<string, HubRoute> = new Map();
+
+  // Round-robin counter.
+  private nextPeerIndex = 0;
+
+  /**
+   * Constructor.
+   *
+   * @param options IpcHub options.
+   */
+  constructor(options?: IpcHubOptions) {
+    this.options = {
+      balance: 'round-robin',
+      ...options,
+    };
+  }
+
+  /**
+   * Ids of the registered peers.
+   */
+  public get peerIds(): string[] {
+    return Array.from(this.peers.keys());
+  }
+
+  /**
+   * Register a peer.
+   * The peer is removed automatically when the IPC process emits "exit" or "disconnect".
+   *
+   * @param id Peer id.
+   * @param ipcProcess IPC process of the peer (e.g. ChildProcess).
+   * @returns Function you can call to remove the peer.
+   */
+  public addPeer(id: string, ipcProcess: IpcProcess): RemoveHandler {
+    assertValidIpcName(id);
+
+    if (this.peers.has(id)) {
+      throw new Error(`The peer with id "${id}" already exists.`);
+    }
+
+    const link = new HubLink(
+      (data: object, callback?: IpcSendCallback) =>
+        this.sendFromLink(id, ipcProcess, data, callback),
+      detectSerialization(ipcProcess),
+    );
+    const peer: HubPeer = {
+      id,
+      ipcProcess,
+      link,
+      ipc: new NodeSimpleIpc(link, this.options.ipcOptions),
+      remoteNames: new Set(),
+      active: 0,
+      assembler: new FragmentAssembler(
+        this.options.ipcOptions?.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE,
+        this.options.ipcOptions?.reassemblyTimeout ??
+          DEFAULT_REASSEMBLY_TIMEOUT,
+      ),
+      messageListener: (msg: unknown): void => this.onPeerMessage(peer, msg),
+      closeListener: (): void => this.removePeer(id),
+    };
+
+    this.peers.set(id, peer);
+
+    ipcProcess.on('message', peer.messageListener);
+    ipcProcess.on('exit', peer.closeListener);
+    ipcProcess.on('disconnect', peer.closeListener);
+
+    return () => {
+      if (this.peers.get(id) === peer) {
+        this.removePeer(id);
+      }
+    };
+  }
+
+  /**
+   * Remove a peer and close its NodeSimpleIpc instance.
+   * Requests forwarded to the peer are rejected, requests forwarded from the peer are cancelled.
+   *
+   * @param id Peer id.
+   */
+  public removePeer(id: string): void {
+    const peer = this.peers.get(id);
+
+    if (!peer) {
+      return;
+    }
+
+    this.peers.delete(id);
+
+    peer.ipcProcess.off('message', peer.messageListener);
+    peer.ipcProcess.off('exit', peer.closeListener);
+    peer.ipcProcess.off('disconnect', peer.closeListener);
+    peer.ipc.close();
+    peer.assembler.clear();
+    this.announceRpcNames(peer);
+
+    this.routes.forEach((route, correlationId) => {
+      if (route.to === peer) {
+        this.deleteRoute(correlationId, route);
+        this.sendToPeer<IpcOutput>(route.from, {
+          correlationId,
+          name: route.name,
+          data: undefined,
+          error: {
+            message: `Peer "${id}" disconnected.`,
+          },
+          type: IpcDataType.Output,
+        });
+      } else if (route.from === peer) {
+        // Nobody waits for the reply anymore
+        this.deleteRoute(correlationId, route);
+        route.to.active--;
+        this.sendToPeer<IpcCancel>(route.to, {
+          correlationId,
+          name: route.name,
+          type: IpcDataType.Cancel,
+        });
+      }
+    });
+  }
+
+  /**
+   * Get the NodeSimpleIpc instance of a peer.
+   *
+   * @param id Peer id.
+   * @returns NodeSimpleIpc instance.
+   */
+  public peer(id: string): NodeSimpleIpc {
+    return this.getPeer(id).ipc;
+  }
+
+  /**
+   * Start a RPC request to a peer.
+   *
+   * @param peerId Peer id.
+   * @param name RPC name.
+   * @param data Request data (optional).
+   * @param options Request options.
+   * @returns The response.
+   */
+  public act<D = unknown>(
+    peerId: string,
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D> {
+    return this.actPeer<D>(this.getPeer(peerId), name, data, options);
+  }
+
+  /**
+   * Start a load balanced RPC request to one of the peers which registered the RPC.
+   *
+   * @param name RPC name.
+   * @param data Request data (optional).
+   * @param options Request options.
+   * @returns The response.
+   */
+  public actAny<D = unknown>(
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D> {
+    const peer = this.choosePeer(name);
+
+    if (!peer) {
+      return Promise.reject(new Error(`No peer provides RPC "${name}".`));
+    }
+
+    return this.actPeer<D>(peer, name, data, options);
+  }
+
+  /**
+   * Send an event to all peers.
+   *
+   * @param event Event name.
+   * @param data Event data (optional).
+   */
+  public emit(event: string, data?: unknown): void {
+    this.peers.forEach((peer) => peer.ipc.emit(event, data));
+  }
+
+  /**
+   * Remove all peers.
+   */
+  public close(): void {
+    this.peerIds.forEach((id) => this.removePeer(id));
+  }
+
+  private getPeer(id: string): HubPeer {
+    const peer = this.peers.get(id);
+
+    if (!peer) {
+      throw new Error(`The peer with id "${id}" does not exist.`);
+    }
+
+    return peer;
+  }
+
+  private actPeer<D>(
+    peer: HubPeer,
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D> {
+    const reply = peer.ipc.act<D>(name, data, options);
+    const release = (): void => {
+      peer.active--;
+    };
+
+    peer.active++;
+    reply.then(release, release);
+
+    return reply;
+  }
+
+  /**
+   * Choose a peer which registered the RPC, using the configured balance strategy.
+   *
+   * @param name RPC name.
+   * @param exclude Peer which must not be chosen.
+   * @returns The chosen peer or undefined if no peer registered the RPC.
+   */
+  private choosePeer(name: string, exclude?: HubPeer): HubPeer | undefined {
+    const candidates = Array.from(this.peers.values()).filter(
+      (peer) => peer !== exclude && peer.remoteNames.has(name),
+    );
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    if (this.options.balance === 'least-busy') {
+      return candidates.reduce((best, peer) =>
+        peer.active < best.active ? peer : best,
+      );
+    }
+
+    return candidates[this.nextPeerIndex++ % candidates.length];
+  }
+
+  private onPeerMessage(peer: HubPeer, msg: unknown): void {
+    if (isIpcFragment(msg)) {
+      // Route the message when all its fragments were received
+      const message = reassembleFragment(peer.assembler, msg);
+
+      if (message !== undefined) {
+        this.onPeerMessage(peer, message);
+      }
+      return;
+    }
+
+    if (isIpcBatch(msg)) {
+      // Route the frames of a batch one by one
+      msg.frames.forEach((frame) => this.onPeerMessage(peer, frame));
+      return;
+    } else if (isIpcRpcNames(msg)) {
+      peer.remoteNames = new Set(msg.names);
+      this.announceRpcNames(peer);
+    } else if (isIpcInput(msg) && this.forwardInput(peer, msg)) {
+      return;
+    } else if (
+      isIpcOutput(msg) ||
+      isIpcProgress(msg) ||
+      isIpcStreamChunk(msg) ||
+      isIpcStreamEnd(msg) ||
+      isIpcStreamError(msg)
+    ) {
+      const route = this.routes.get(msg.correlationId);
+
+      if (route && route.to === peer) {
+        if (!isIpcStreamChunk(msg) && !isIpcProgress(msg)) {
+          this.deleteRoute(msg.correlationId, route);
+          route.to.active--;
+        }
+
+        this.sendToPeer(route.from, msg);
+        return;
+      }
+    } else if (isIpcCancel(msg) || isIpcStreamPull(msg)) {
+      const route = this.routes.get(msg.correlationId);
+
+      if (route && route.from === peer) {
+        if (isIpcCancel(msg)) {
+          this.deleteRoute(msg.correlationId, route);
+          route.to.active--;
+        }
+
+        this.sendToPeer(route.to, msg);
+        return;
+      }
+    } else if (isIpcCallbackRelease(msg)) {
+      const route = this.callbackRoutes.get(msg.id);
+
+      if (route && route.to === peer) {
+        this.callbackRoutes.delete(msg.id);
+        this.sendToPeer(route.from, msg);
+        return;
+      }
+    }
+
+    peer.link.emit('message', msg);
+  }
+
+  /**
+   * Forward a request to a sibling peer if the hub does not handle it.
+   *
+   * @param peer Peer which sent the request.
+   * @param input Request.
+   * @returns Whether the request was forwarded.
+   */
+  private forwardInput(peer: HubPeer, input: IpcInput): boolean {
+    if (input.name === CALLBACK_RPC_NAME) {
+      return this.forwardCallback(peer, input);
+    }
+
+    if (peer.ipc.rpcNames.includes(input.name)) {
+      return false;
+    }
+
+    const target = this.choosePeer(input.name, peer);
+
+    if (!target) {
+      return false;
+    }
+
+    this.addRoute(input, peer, target);
+
+    return true;
+  }
+
+  /**
+   * Forward a callback call to the peer which passed the callback in a forwarded request.
+   * Only the target peer of the request can call its callbacks.
+   *
+   * @param peer Peer which sent the callback call.
+   * @param input Callback call request.
+   * @returns Whether the request was forwarded.
+   */
+  private forwardCallback(peer: HubPeer, input: IpcInput): boolean {
+    const id = this.callbackId(input);
+    const route =
+      typeof id === 'string' ? this.callbackRoutes.get(id) : undefined;
+
+    if (!route || route.to !== peer) {
+      return false;
+    }
+
+    this.addRoute(input, peer, route.from);
+
+    return true;
+  }
+
+  /**
+   * Route a request to the target peer and send it.
+   *
+   * @param input Request.
+   * @param from Peer which sent the request.
+   * @param to Target peer.
+   */
+  private addRoute(input: IpcInput, from: HubPeer, to: HubPeer): void {
+    const route: HubRoute = {
+      from,
+      to,
+      name: input.name,
+      callbacks: Array.isArray(input.callbacks) ? input.callbacks : [],
+    };
+
+    this.routes.set(input.correlationId, route);
+    route.callbacks.forEach((id) => this.callbackRoutes.set(id, route));
+    to.active++;
+    this.sendToPeer(to, input);
+  }
+
+  /**
+   * Remove a finished route and the routes of its callbacks.
+   *
+   * @param correlationId Request correlation id.
+   * @param route Route of the request.
+   */
+  private deleteRoute(correlationId: string, route: HubRoute): void {
+    this.routes.delete(correlationId);
+    route.callbacks.forEach((id) => this.callbackRoutes.delete(id));
+  }
+
+  /**
+   * Read the callback handle id of a callback call request.
+   *
+   * @param input Callback call request.
+   * @returns The callback id, undefined if the request data can not be decoded.
+   */
+  private callbackId(input: IpcInput): unknown {
+    const codec = this.options.ipcOptions?.codec;
+
+    try {
+      const { data } = decodeBinaryFrame(input) as IpcInput;
+      const decoded = codec ? codec.decode(data) : data;
+
+      return (decoded as { id?: unknown } | undefined)?.id;
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a frame of the NodeSimpleIpc instance of a peer.
+   * The RPC names also include the RPC endpoints of the sibling peers, since the hub forwards them.
+   *
+   * @param id Peer id.
+   * @param ipcProcess IPC process of the peer.
+   * @param frame Frame to send.
+   * @param callback Send callback.
+   * @returns The sending result.
+   */
+  private sendFromLink(
+    id: string,
+    ipcProcess: IpcProcess,
+    frame: object,
+    callback?: IpcSendCallback,
+  ): boolean {
+    if (!ipcProcess.send) throw new Error('The send() method is not defined.');
+
+    if (isIpcRpcNames(frame)) {
+      return ipcProcess.send(
+        {
+          ...frame,
+          names: this.availableRpcNames(id, frame.names),
+        },
+        callback,
+      );
+    }
+
+    return ipcProcess.send(frame, callback);
+  }
+
+  /**
+   * Names of the RPC endpoints a peer can call through the hub.
+   *
+   * @param id Peer id.
+   * @param hubNames Names of the RPC endpoints registered on the hub for the peer.
+   * @returns RPC names.
+   */
+  private availableRpcNames(id: string, hubNames: string[]): string[] {
+    const names = new Set(hubNames);
+
+    this.peers.forEach((sibling) => {
+      if (sibling.id !== id) {
+        sibling.remoteNames.forEach((name) => names.add(name));
+      }
+    });
+
+    return Array.from(names);
+  }
+
+  /**
+   * Send the updated RPC names to the siblings of a peer.
+   *
+   * @param changedPeer Peer whose RPC names changed.
+   */
+  private announceRpcNames(changedPeer: HubPeer): void {
+    this.peers.forEach((peer) => {
+      if (peer !== changedPeer) {
+        this.sendToPeer<IpcRpcNames>(peer, {
+          names: this.availableRpcNames(peer.id, peer.ipc.rpcNames),
+          type: IpcDataType.RpcNames,
+        });
+      }
+    });
+  }
+
+  // Frames are sent through the NodeSimpleIpc instance of the peer, which fragments them if needed.
+  private sendToPeer<F extends object>(peer: HubPeer, frame: F): void {
+    if (peer.ipcProcess.send) {
+      peer.ipc.forwardFrame(frame);
+    }
+  }
+}
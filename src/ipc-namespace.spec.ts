@@ -0,0 +1,90 @@
+import { IpcNamespace } from './ipc-namespace';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import { FakeIpc } from './utils/fake-proc-ipc';
+
+describe('IpcNamespace', function () {
+  let masterIpc: NodeSimpleIpc, childIpc: NodeSimpleIpc;
+  let masterJobs: IpcNamespace, childJobs: IpcNamespace;
+
+  beforeEach(() => {
+    const fakeIpc = new FakeIpc();
+    masterIpc = new NodeSimpleIpc(fakeIpc.master);
+    childIpc = new NodeSimpleIpc(fakeIpc.child);
+    masterJobs = masterIpc.namespace('jobs');
+    childJobs = childIpc.namespace('jobs');
+  });
+
+  it('should prefix RPC names.', async () => {
+    childJobs.add('run', (n: number) => n + 1);
+
+    expect(childIpc.rpcNames).toEqual(['jobs.run']);
+    await expect(masterJobs.act('run', 1)).resolves.toEqual(2);
+    await expect(masterIpc.act('jobs.run', 2)).resolves.toEqual(3);
+  });
+
+  it('should prefix exposed service names.', async () => {
+    childJobs.expose('queue', { size: () => 3 });
+
+    expect(childIpc.rpcNames).toEqual(['jobs.queue.size']);
+    await expect(
+      masterJobs.proxy<{ size(): number }>('queue').size(),
+    ).resolves.toEqual(3);
+  });
+
+  it('should prefix stream RPC names.', async () => {
+    childJobs.add('list', () => [1, 2]);
+
+    const chunks: unknown[] = [];
+    for await (const chunk of masterJobs.actStream('list')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2]);
+  });
+
+  it('should prefix event names and strip them for listeners.', () => {
+    const onDone = jest.fn();
+    const onAny = jest.fn();
+    const onOther = jest.fn();
+    childJobs.on('done', onDone);
+    childJobs.onAny(onAny);
+    childIpc.on('done', onOther);
+
+    masterJobs.emit('done', 1);
+    masterJobs.emit('step.progress', 2);
+
+    expect(onDone).toBeCalledWith(1);
+    expect(onAny.mock.calls).toEqual([
+      [1, 'done'],
+      [2, 'step.progress'],
+    ]);
+    expect(onOther).not.toBeCalled();
+  });
+
+  it('should remove listeners by the original handler.', () => {
+    const onDone = jest.fn();
+    const onceDone = jest.fn();
+    childJobs.on('done', onDone, { schema: { parse: (data) => data } });
+    childJobs.once('done', onceDone);
+
+    masterJobs.emit('done');
+    childJobs.off('done', onDone);
+    masterJobs.emit('done');
+
+    expect(onDone).toBeCalledTimes(1);
+    expect(onceDone).toBeCalledTimes(1);
+  });
+
+  it('should create nested namespaces.', () => {
+    const onEvent = jest.fn();
+    childIpc.on('jobs.video.done', onEvent);
+
+    masterJobs.namespace('video').emit('done');
+
+    expect(onEvent).toBeCalledTimes(1);
+  });
+
+  it('should throw an error on an empty prefix.', () => {
+    expect(() => masterIpc.namespace('')).toThrow();
+  });
+});
@@ -0,0 +1,230 @@
+import type { NodeSimpleIpc } from './node-simple-ipc';
+import {
+  IpcActOptions,
+  IpcActStreamOptions,
+  IpcAddOptions,
+  IpcEventOptions,
+  IpcEmitOptions,
+  IpcEmitResult,
+  IpcHandler,
+  IpcServiceProxy,
+  EventHandler,
+  RemoveHandler,
+} from './types';
+
+/**
+ * View of NodeSimpleIpc which prefixes RPC and event names with "<prefix>.".
+ * Listeners receive event names without the prefix.
+ */
+export class IpcNamespace {
+  /**
+   * Constructor.
+   *
+   * @param ipc NodeSimpleIpc instance.
+   * @param prefix Name prefix.
+   */
+  constructor(
+    public readonly ipc: NodeSimpleIpc,
+    public readonly prefix: string,
+  ) {}
+
+  /**
+   * Start a RPC request.
+   *
+   * @param name RPC name without the prefix.
+   * @param data Request data.
+   * @param options Request options.
+   * @returns The response.
+   */
+  public act<D = unknown>(
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D> {
+    return this.ipc.act<D>(this.prefixed(name), data, options);
+  }
+
+  /**
+   * Start a stream RPC request.
+   *
+   * @param name RPC name without the prefix.
+   * @param data Request data.
+   * @param options Stream options.
+   * @returns Async iterator of the stream chunks.
+   */
+  public actStream<D = unknown>(
+    name: string,
+    data?: unknown,
+    options?: IpcActStreamOptions,
+  ): AsyncIterableIterator<D> {
+    return this.ipc.actStream<D>(this.prefixed(name), data, options);
+  }
+
+  /**
+   * Add a RPC endpoint.
+   *
+   * @param name RPC name without the prefix.
+   * @param handlerFn Handler function.
+   * @param options RPC endpoint options.
+   * @returns Function you can call to remove the RPC endpoint.
+   */
+  public add<I = unknown, O = unknown>(
+    name: string,
+    handlerFn: IpcHandler<I, O>,
+    options?: IpcAddOptions<I, O>,
+  ): RemoveHandler {
+    return this.ipc.add(this.prefixed(name), handlerFn, options);
+  }
+
+  /**
+   * Expose the methods of a service object as RPC endpoints.
+   *
+   * @param name Service name without the prefix.
+   * @param service Service object.
+   * @returns Function you can call to remove all RPC endpoints of the service.
+   */
+  public expose(name: string, service: object): RemoveHandler {
+    return this.ipc.expose(this.prefixed(name), service);
+  }
+
+  /**
+   * Returns an object whose methods call the methods of a service exposed by the peer.
+   *
+   * @param name Service name without the prefix.
+   * @param options Options of the requests.
+   * @returns The service proxy.
+   */
+  public proxy<T extends object>(
+    name: string,
+    options?: IpcActOptions,
+  ): IpcServiceProxy<T> {
+    return this.ipc.proxy<T>(this.prefixed(name), options);
+  }
+
+  /**
+   * Adds the listener function to the end of the listeners.
+   *
+   * @param event Event name or pattern without the prefix.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public on<T = unknown>(
+    event: string,
+    handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
+  ): RemoveHandler {
+    return this.ipc.on(
+      this.prefixed(event),
+      this.scopedHandler(handler),
+      options,
+    );
+  }
+
+  /**
+   * Adds a one-time listener function for the event.
+   *
+   * @param event Event name or pattern without the prefix.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public once<T = unknown>(
+    event: string,
+    handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
+  ): RemoveHandler {
+    const remove: RemoveHandler = this.ipc.on(
+      this.prefixed(event),
+      this.scopedHandler(handler, () => remove()),
+      options,
+    );
+
+    return remove;
+  }
+
+  /**
+   * Adds the listener function for all events of the namespace.
+   *
+   * @param handler Listener function, called with the event data and name.
+   * @returns Function you can call to remove the event handler.
+   */
+  public onAny<T = unknown>(handler: EventHandler<T>): RemoveHandler {
+    return this.on('**', handler);
+  }
+
+  /**
+   * Removes the specified listener from the listener array.
+   *
+   * @param event Event name or pattern without the prefix.
+   * @param handler Listener function.
+   */
+  public off<T = unknown>(event: string, handler: EventHandler<T>): void {
+    this.ipc.off(this.prefixed(event), handler);
+  }
+
+  /**
+   * Send an event over IPC.
+   *
+   * @param event Event name without the prefix.
+   * @param data Event data (optional).
+   * @param options Emit options.
+   * @returns The sending result.
+   */
+  public emit(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): IpcEmitResult {
+    return this.ipc.emit(this.prefixed(event), data, options);
+  }
+
+  /**
+   * Send an event over IPC and wait until it is sent.
+   *
+   * @param event Event name without the prefix.
+   * @param data Event data (optional).
+   * @param options Emit options.
+   * @returns Promise resolved with the sending result when the event was sent.
+   */
+  public emitAsync(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): Promise<IpcEmitResult> {
+    return this.ipc.emitAsync(this.prefixed(event), data, options);
+  }
+
+  /**
+   * Returns a nested namespace.
+   *
+   * @param prefix Name prefix, appended to the prefix of this namespace.
+   * @returns The namespaced view.
+   */
+  public namespace(prefix: string): IpcNamespace {
+    return this.ipc.namespace(this.prefixed(prefix));
+  }
+
+  private prefixed(name: string): string {
+    return `${this.prefix}.${name}`;
+  }
+
+  // Wrap the handler to strip the prefix from event names. The wrapper references
+  // the handler in the "listener" property, so off() can remove it by the original handler.
+  private scopedHandler<T>(
+    handler: EventHandler<T>,
+    beforeCall?: () => void,
+  ): EventHandler<T> {
+    const listener = (data: T, event?: string): void => {
+      beforeCall?.();
+
+      if (event === undefined) {
+        handler(data);
+      } else {
+        handler(data, event.slice(this.prefix.length + 1));
+      }
+    };
+
+    return Object.assign(listener, { listener: handler });
+  }
+}
@@ -1,5 +1,12 @@
 export * from './node-simple-ipc';
+export * from './ipc-hub';
+export * from './ipc-client';
+export * from './ipc-namespace';
+export * from './supervised-ipc';
 export * from './types';
 export * from './errors';
 export * from './utils';
+export * from './transports';
+export * from './codecs';
+export * from './instrumentation';
 export { NodeSimpleIpc as default } from './node-simple-ipc';
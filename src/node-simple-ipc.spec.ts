@@ -1,6 +1,27 @@
-import { RemoteError, TimeoutError } from './errors';
+import { EventEmitter } from 'events';
+import {
+  AbortError,
+  ChannelClosedError,
+  ClosedError,
+  OverloadedError,
+  PeerUnavailableError,
+  RemoteError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+import { ExtendedJsonCodec } from './codecs';
 import { NodeSimpleIpc } from './node-simple-ipc';
-import { FakeIpc } from './utils/fake-proc-ipc';
+import {
+  IpcCallbackStub,
+  IpcDataType,
+  IpcEvent,
+  IpcHandlerContext,
+  IpcSendCallback,
+  IpcSpanOptions,
+  IpcTracer,
+} from './types';
+import { createAbortController, registerError, unregisterError } from './utils';
+import { FakeIpc, FakeIpcProcess } from './utils/fake-proc-ipc';
 
 describe('NodeSimpleIpc', function () {
   let fakeIpc: FakeIpc, masterIpc: NodeSimpleIpc, childIpc: NodeSimpleIpc;
@@ -93,6 +114,39 @@ describe('NodeSimpleIpc', function () {
     ).rejects.toThrow('RPC "inexistend_endpoint" not found.');
   });
 
+  it('should reject requests to RPC endpoints named like Object.prototype properties.', async () => {
+    await expect(masterIpc.act('toString')).rejects.toThrow(
+      'RPC "toString" not found.',
+    );
+    await expect(masterIpc.act('constructor')).rejects.toThrow(
+      'RPC "constructor" not found.',
+    );
+  });
+
+  it('should not find RPC endpoints named like Object.prototype properties.', () => {
+    const replies: unknown[] = [];
+    fakeIpc.master.on('message', (msg) => replies.push(msg));
+
+    ['__defineGetter__', 'constructor', 'toString'].forEach((name) =>
+      fakeIpc.master.send({
+        type: IpcDataType.Input,
+        name,
+        correlationId: name,
+      }),
+    );
+
+    expect(replies).toEqual(
+      ['__defineGetter__', 'constructor', 'toString'].map((name) =>
+        expect.objectContaining({
+          correlationId: name,
+          error: expect.objectContaining({
+            message: `RPC "${name}" not found.`,
+          }),
+        }),
+      ),
+    );
+  });
+
   it('should remove RPC endpoint.', () => {
     expect.assertions(2);
 
@@ -175,4 +229,1331 @@ describe('NodeSimpleIpc', function () {
 
     expect(mockCallbackOnce).toBeCalledTimes(0);
   });
+
+  it('should remove all listeners from the IPC process on close.', () => {
+    masterIpc.add('rpc1', () => undefined);
+    masterIpc.add('rpc2', () => undefined);
+
+    expect(fakeIpc.master.listenerCount('message')).toBe(1);
+
+    masterIpc.close();
+
+    expect(masterIpc.closed).toBe(true);
+    expect(fakeIpc.master.listenerCount('message')).toBe(0);
+    expect(fakeIpc.master.listenerCount('exit')).toBe(0);
+    expect(fakeIpc.master.listenerCount('disconnect')).toBe(0);
+  });
+
+  it('should reject pending requests with ClosedError on close.', () => {
+    expect.assertions(1);
+
+    childIpc.add('never_reply', () => new Promise(() => undefined));
+
+    const pending = masterIpc.act('never_reply');
+    masterIpc.close();
+
+    return expect(pending).rejects.toThrow(ClosedError);
+  });
+
+  it('should throw ClosedError on act(), emit() and add() after close.', () => {
+    masterIpc.close();
+
+    expect(() => masterIpc.act('rpc1')).toThrow(ClosedError);
+    expect(() => masterIpc.emit('event1')).toThrow(ClosedError);
+    expect(() => masterIpc.add('rpc1', () => undefined)).toThrow(ClosedError);
+  });
+
+  it('should close automatically when the IPC process exits or disconnects.', () => {
+    fakeIpc.master.emit('exit');
+    fakeIpc.child.emit('disconnect');
+
+    expect(masterIpc.closed).toBe(true);
+    expect(childIpc.closed).toBe(true);
+  });
+
+  it('should stream chunks from an async generator endpoint.', async () => {
+    childIpc.add('count', async function* (to: number) {
+      for (let i = 1; i <= to; i++) {
+        yield i;
+      }
+    });
+
+    const chunks: number[] = [];
+
+    for await (const chunk of masterIpc.actStream<number>('count', 5)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should not send more chunks than the consumer can buffer.', async () => {
+    let produced = 0;
+
+    childIpc.add('infinite', async function* () {
+      for (;;) {
+        produced++;
+        yield produced;
+      }
+    });
+
+    const stream = masterIpc.actStream<number>('infinite', undefined, {
+      highWaterMark: 3,
+    });
+
+    await expect(stream.next()).resolves.toEqual({ value: 1, done: false });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(produced).toBeLessThanOrEqual(4);
+
+    await stream.return?.();
+  });
+
+  it('should cancel the remote stream when the iterator is closed early.', async () => {
+    const finalize = jest.fn();
+
+    childIpc.add('cancel_me', async function* () {
+      try {
+        for (let i = 0; ; i++) {
+          yield i;
+        }
+      } finally {
+        finalize();
+      }
+    });
+
+    for await (const chunk of masterIpc.actStream<number>('cancel_me')) {
+      if (chunk === 2) {
+        break;
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(finalize).toBeCalledTimes(1);
+  });
+
+  it('should throw RemoteError when a stream endpoint fails.', async () => {
+    childIpc.add('fail_stream', async function* () {
+      yield 1;
+      throw new Error('Stream failed.');
+    });
+
+    const stream = masterIpc.actStream('fail_stream');
+
+    await expect(stream.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(stream.next()).rejects.toThrow(RemoteError);
+    await expect(stream.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('should throw RemoteError when a stream endpoint does not return an iterable.', () => {
+    expect.assertions(1);
+
+    childIpc.add('not_iterable', () => 123);
+
+    return expect(masterIpc.actStream('not_iterable').next()).rejects.toThrow(
+      'RPC "not_iterable" did not return an iterable.',
+    );
+  });
+
+  it('should abort the request and notify the remote handler.', async () => {
+    const controller = createAbortController();
+    let remoteSignal: AbortSignal | undefined;
+
+    childIpc.add('long_job', (_: unknown, { signal }) => {
+      remoteSignal = signal;
+      return new Promise(() => undefined);
+    });
+
+    const pending = masterIpc.act('long_job', undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(AbortError);
+    expect(remoteSignal?.aborted).toBe(true);
+  });
+
+  it('should pass the request context to the handler.', async () => {
+    let handlerCtx: IpcHandlerContext | undefined;
+
+    masterIpc.use((ctx, next) => {
+      ctx.metadata.user = 'admin';
+      return next();
+    });
+    childIpc.add('inspect', (_: unknown, ctx) => {
+      handlerCtx = ctx;
+    });
+
+    const before = Date.now();
+    await masterIpc.act('inspect', undefined, { timeout: 1000 });
+
+    expect(handlerCtx).toMatchObject({
+      correlationId: expect.any(String),
+      name: 'inspect',
+      metadata: { user: 'admin' },
+    });
+    expect(handlerCtx?.deadline).toBeGreaterThanOrEqual(before + 1000);
+    expect(handlerCtx?.deadline).toBeLessThanOrEqual(Date.now() + 1000);
+  });
+
+  it('should not set the deadline when the caller waits forever.', async () => {
+    let deadline: number | undefined = 0;
+
+    childIpc.add('inspect', (_: unknown, ctx) => {
+      deadline = ctx.deadline;
+      return new Promise((resolve) => setTimeout(() => resolve('done'), 20));
+    });
+
+    await expect(
+      masterIpc.act('inspect', undefined, { timeout: Infinity }),
+    ).resolves.toEqual('done');
+    expect(deadline).toBeUndefined();
+  });
+
+  it('should deliver the progress notifications of the handler to the caller.', async () => {
+    const onProgress = jest.fn();
+    const sent: boolean[] = [];
+    let emitLater: (() => boolean) | undefined;
+
+    childIpc.add('job', (_: unknown, ctx) => {
+      sent.push(ctx.emitToCaller('percent', 50));
+      sent.push(ctx.emitToCaller('percent', 100));
+      emitLater = (): boolean => ctx.emitToCaller('percent', 101);
+      return 'done';
+    });
+
+    await expect(masterIpc.act('job', undefined, { onProgress })).resolves.toBe(
+      'done',
+    );
+    await expect(masterIpc.act('job')).resolves.toBe('done');
+
+    expect(onProgress.mock.calls).toEqual([
+      ['percent', 50],
+      ['percent', 100],
+    ]);
+    // The second caller does not listen to progress
+    expect(sent).toEqual([true, true, false, false]);
+    expect(emitLater?.()).toBe(false);
+  });
+
+  it('should let the handler call functions passed in the request data.', async () => {
+    const progress: number[] = [];
+
+    childIpc.add(
+      'process_file',
+      async ({
+        path,
+        onProgress,
+      }: {
+        path: string;
+        onProgress: IpcCallbackStub<[number], string>;
+      }) => {
+        expect(onProgress.dispose).toEqual(expect.any(Function));
+        const replies = [await onProgress(50), await onProgress(100)];
+        return `${path}: ${replies.join(', ')}`;
+      },
+    );
+
+    await expect(
+      masterIpc.act('process_file', {
+        path: 'a.txt',
+        onProgress: (pct: number) => {
+          progress.push(pct);
+          return `got ${pct}`;
+        },
+      }),
+    ).resolves.toBe('a.txt: got 50, got 100');
+    expect(progress).toEqual([50, 100]);
+  });
+
+  it('should reject calls of callbacks released by the caller.', async () => {
+    let stub: IpcCallbackStub | undefined;
+    const callback = jest.fn(() => {
+      throw new Error('callback failed');
+    });
+
+    childIpc.add('keep', ({ cb }: { cb: IpcCallbackStub }) => {
+      stub = cb;
+      return cb().catch((err: Error) => err.message);
+    });
+
+    await expect(masterIpc.act('keep', { cb: callback })).resolves.toBe(
+      'callback failed',
+    );
+    // The request completed
+    await expect(stub?.()).rejects.toThrow(/Callback ".+" is not available./);
+    expect(callback).toBeCalledTimes(1);
+  });
+
+  it('should release the callback when the stub is disposed.', async () => {
+    const callback = jest.fn();
+    const sendSpy = jest.spyOn(fakeIpc.child, 'send');
+
+    childIpc.add('dispose', ({ cb }: { cb: IpcCallbackStub }) => {
+      cb.dispose();
+      return cb();
+    });
+
+    await expect(masterIpc.act('dispose', { cb: callback })).rejects.toThrow(
+      /Callback ".+" was disposed./,
+    );
+    expect(callback).not.toBeCalled();
+    expect(sendSpy).toBeCalledWith(
+      { id: expect.any(String), type: IpcDataType.CallbackRelease },
+      expect.any(Function),
+    );
+  });
+
+  it('should expose the methods of a service object.', async () => {
+    class UsersService extends EventEmitter {
+      public prefix = 'Dr. ';
+
+      protected users: Record<string, string> = { '1': 'Ann' };
+
+      public get(id: string): string {
+        return this.users[id];
+      }
+
+      public async update(id: string, name: string): Promise<string> {
+        this.users[id] = this.prefix + name;
+        return this.users[id];
+      }
+
+      public _reset(): void {
+        this.users = {};
+      }
+    }
+
+    const removeService = childIpc.expose('users', new UsersService());
+    const users = masterIpc.proxy<UsersService>('users');
+
+    expect(childIpc.rpcNames).toEqual(['users.get', 'users.update']);
+    await expect(users.get('1')).resolves.toBe('Ann');
+    await expect(users.update('1', 'Bob')).resolves.toBe('Dr. Bob');
+    await expect(masterIpc.act('users.get', ['1'])).resolves.toBe('Dr. Bob');
+
+    removeService();
+
+    expect(childIpc.rpcNames).toEqual([]);
+    await expect(users.get('1')).rejects.toThrow('RPC "users.get" not found.');
+  });
+
+  it('should not expose a service which conflicts with registered RPC endpoints.', () => {
+    childIpc.add('users.get', () => 'user');
+
+    expect(() => childIpc.expose('users', { get: () => 'other' })).toThrow(
+      'The RPC named "users.get" already exists.',
+    );
+    expect(() => childIpc.expose('empty', {})).toThrow(
+      'The service "empty" has no methods.',
+    );
+    expect(childIpc.rpcNames).toEqual(['users.get']);
+  });
+
+  it('should notify the remote handler when the request timed out.', async () => {
+    let remoteSignal: AbortSignal | undefined;
+
+    childIpc.add('slow_job', (_: unknown, { signal }) => {
+      remoteSignal = signal;
+      return new Promise(() => undefined);
+    });
+
+    await expect(
+      masterIpc.act('slow_job', undefined, { timeout: 10 }),
+    ).rejects.toThrow(TimeoutError);
+    expect(remoteSignal?.aborted).toBe(true);
+  });
+
+  it('should not send a reply for an aborted request.', async () => {
+    const controller = createAbortController();
+    const sendSpy = jest.spyOn(fakeIpc.child, 'send');
+
+    childIpc.add('delayed_echo', (input: string) => {
+      return new Promise((resolve) => setTimeout(() => resolve(input), 10));
+    });
+
+    const pending = masterIpc.act('delayed_echo', 'hi', {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(AbortError);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(sendSpy).not.toBeCalledWith(
+      expect.objectContaining({ type: IpcDataType.Output }),
+    );
+  });
+
+  it('should reject immediately when the signal is already aborted.', () => {
+    expect.assertions(2);
+
+    const controller = createAbortController();
+    const handler = jest.fn();
+    controller.abort();
+
+    childIpc.add('never_called', handler);
+
+    return expect(
+      masterIpc.act('never_called', undefined, { signal: controller.signal }),
+    )
+      .rejects.toThrow(AbortError)
+      .then(() => expect(handler).not.toBeCalled());
+  });
+
+  it('should list RPC endpoints registered by the peer.', async () => {
+    childIpc.add('rpc1', () => undefined);
+    const removeRpc2 = childIpc.add('rpc2', () => undefined);
+
+    await expect(masterIpc.listRemote()).resolves.toEqual(['rpc1', 'rpc2']);
+
+    removeRpc2();
+
+    await expect(masterIpc.listRemote()).resolves.toEqual(['rpc1']);
+  });
+
+  it('should request RPC names when the peer started later.', async () => {
+    fakeIpc = new FakeIpc();
+    const lateChildIpc = new NodeSimpleIpc(fakeIpc.child);
+    lateChildIpc.add('rpc1', () => undefined);
+    masterIpc = new NodeSimpleIpc(fakeIpc.master);
+
+    await expect(masterIpc.listRemote()).resolves.toEqual(['rpc1']);
+  });
+
+  it('should wait until the peer registers the RPC endpoint.', async () => {
+    const ready = masterIpc.waitFor('late_rpc');
+
+    setTimeout(() => childIpc.add('late_rpc', () => 'ready'), 5);
+
+    await expect(ready).resolves.toBeUndefined();
+    await expect(masterIpc.act('late_rpc')).resolves.toEqual('ready');
+  });
+
+  it('should throw TimeoutError when the peer does not register the RPC endpoint in time.', () => {
+    expect.assertions(1);
+
+    return expect(
+      masterIpc.waitFor('never_added', { timeout: 10 }),
+    ).rejects.toThrow(TimeoutError);
+  });
+
+  it('should wait forever with an infinite timeout.', async () => {
+    const ready = masterIpc.waitFor('late_rpc', { timeout: Infinity });
+
+    setTimeout(() => childIpc.add('late_rpc', () => 'ready'), 20);
+
+    await expect(ready).resolves.toBeUndefined();
+  });
+
+  it('should reject waits with ClosedError on close.', () => {
+    expect.assertions(1);
+
+    const ready = masterIpc.waitFor('never_added');
+    masterIpc.close();
+
+    return expect(ready).rejects.toThrow(ClosedError);
+  });
+
+  it('should reject invalid RPC input with ValidationError.', async () => {
+    const handler = jest.fn((n: number) => n * 2);
+    const isNumber = (value: unknown): boolean => typeof value === 'number';
+
+    childIpc.add('double', handler, { input: isNumber });
+
+    await expect(masterIpc.act('double', 2)).resolves.toEqual(4);
+    await expect(masterIpc.act('double', 'two')).rejects.toThrow(
+      new ValidationError('Invalid input of RPC "double".'),
+    );
+    expect(handler).toBeCalledTimes(1);
+  });
+
+  it('should pass the parsed RPC input to the handler.', () => {
+    expect.assertions(1);
+
+    childIpc.add('double', (n: number) => n * 2, {
+      input: { parse: (value: unknown): number => Number(value) },
+    });
+
+    return expect(masterIpc.act('double', '21')).resolves.toEqual(42);
+  });
+
+  it('should reject invalid RPC output with ValidationError.', () => {
+    expect.assertions(1);
+
+    childIpc.add('broken', () => 'not a number', {
+      output: (value: unknown): boolean => typeof value === 'number',
+    });
+
+    return expect(masterIpc.act('broken')).rejects.toThrow(ValidationError);
+  });
+
+  it('should call event handlers only with valid event data.', () => {
+    const isString = (value: unknown): boolean => typeof value === 'string';
+    const onHandler = jest.fn();
+    const onceHandler = jest.fn();
+
+    masterIpc.on('text', onHandler, { schema: isString });
+    masterIpc.once('text', onceHandler, { schema: isString });
+    childIpc.emit('text', 1);
+    childIpc.emit('text', 'a');
+    childIpc.emit('text', 'b');
+
+    expect(onHandler.mock.calls).toEqual([['a'], ['b']]);
+    expect(onceHandler.mock.calls).toEqual([['a']]);
+
+    masterIpc.off('text', onHandler);
+    childIpc.emit('text', 'c');
+
+    expect(onHandler).toBeCalledTimes(2);
+  });
+
+  it('should rethrow registered error classes with the remote properties.', async () => {
+    class QuotaError extends Error {
+      code = 'E_QUOTA';
+    }
+
+    registerError(QuotaError, 'QuotaError');
+
+    childIpc.add('upload', () => {
+      const err = new QuotaError('Quota exceeded.');
+      err.name = 'QuotaError';
+      throw err;
+    });
+
+    const reply = masterIpc.act('upload');
+
+    await expect(reply).rejects.toBeInstanceOf(QuotaError);
+    await expect(reply).rejects.toMatchObject({
+      code: 'E_QUOTA',
+      message: 'Quota exceeded.',
+    });
+
+    unregisterError('QuotaError');
+  });
+
+  it('should pass metadata from act() middleware to handler middleware and back.', async () => {
+    const seen: unknown[] = [];
+
+    masterIpc.use(async (ctx, next) => {
+      ctx.metadata.token = 'secret';
+      const result = await next();
+      seen.push(ctx.replyMetadata.server);
+      return result;
+    });
+    childIpc.use((ctx, next) => {
+      seen.push(ctx.metadata.token);
+      ctx.replyMetadata.server = 'child';
+      return next();
+    });
+    childIpc.add('echo', (input: string) => input);
+
+    await expect(masterIpc.act('echo', 'hi')).resolves.toEqual('hi');
+    expect(seen).toEqual(['secret', 'child']);
+  });
+
+  it('should short-circuit act() with a middleware result or error.', async () => {
+    const handler = jest.fn();
+    childIpc.add('cached', handler);
+
+    const removeMiddleware = masterIpc.use((ctx, next) =>
+      ctx.name === 'cached' ? Promise.resolve('from cache') : next(),
+    );
+
+    await expect(masterIpc.act('cached')).resolves.toEqual('from cache');
+
+    removeMiddleware();
+    childIpc.use(() => {
+      throw new Error('Unauthorized.');
+    });
+
+    await expect(masterIpc.act('cached')).rejects.toThrow('Unauthorized.');
+    expect(handler).not.toBeCalled();
+  });
+
+  it('should run middleware around emit() and event dispatch.', () => {
+    const handler = jest.fn();
+
+    masterIpc.use((ctx, next) => {
+      if (ctx.kind === 'emit') {
+        ctx.metadata.sentAt = 1;
+        ctx.data = String(ctx.data).toUpperCase();
+      }
+      return next();
+    });
+    childIpc.use((ctx, next) => {
+      if (ctx.kind === 'event' && ctx.metadata.sentAt !== 1) {
+        return false;
+      }
+      return next();
+    });
+    childIpc.on('shout', handler);
+
+    expect(masterIpc.emit('shout', 'hey')).toBe(true);
+    expect(handler).toBeCalledWith('HEY');
+
+    masterIpc.use((ctx, next) => (ctx.name === 'drop' ? undefined : next()));
+
+    expect(masterIpc.emit('drop')).toBe(false);
+  });
+
+  it('should retry a request until the RPC endpoint is registered.', async () => {
+    setTimeout(() => childIpc.add('late_rpc', () => 'ready'), 15);
+
+    await expect(
+      masterIpc.act('late_rpc', undefined, {
+        retry: { attempts: 10, minDelay: 5, jitter: false, factor: 1 },
+      }),
+    ).resolves.toEqual('ready');
+  });
+
+  it('should not retry errors rejected by the retry predicate.', async () => {
+    const handler = jest.fn(() => {
+      throw new Error('Bad input.');
+    });
+    childIpc.add('bad_input', handler);
+
+    await expect(
+      masterIpc.act('bad_input', undefined, { retry: { minDelay: 1 } }),
+    ).rejects.toThrow(RemoteError);
+    expect(handler).toBeCalledTimes(1);
+  });
+
+  it('should run the handler once for retried idempotent requests.', async () => {
+    const handler = jest.fn(
+      () => new Promise((resolve) => setTimeout(resolve, 30, 'done')),
+    );
+    childIpc.add('slow_job', handler);
+
+    await expect(
+      masterIpc.act('slow_job', undefined, {
+        timeout: 20,
+        retry: { attempts: 3, minDelay: 1 },
+      }),
+    ).resolves.toEqual('done');
+    expect(handler).toBeCalledTimes(1);
+  });
+
+  it('should reply with the cached result to a duplicate delivery.', async () => {
+    const handler = jest.fn((n: number) => n + 1);
+    const replies: unknown[] = [];
+    childIpc.add('increment', handler);
+    fakeIpc.master.on('message', (msg) => replies.push(msg));
+
+    const input = {
+      type: IpcDataType.Input,
+      name: 'increment',
+      data: 1,
+      idempotencyKey: 'key1',
+    };
+    fakeIpc.master.send({ ...input, correlationId: 'a' });
+    fakeIpc.master.send({ ...input, correlationId: 'b' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(handler).toBeCalledTimes(1);
+    expect(replies).toEqual([
+      expect.objectContaining({ correlationId: 'a', data: 2 }),
+      expect.objectContaining({ correlationId: 'b', data: 2 }),
+    ]);
+  });
+
+  it('should carry Buffers and typed arrays over a JSON channel.', async () => {
+    const jsonIpc = new FakeIpc((data) => JSON.parse(JSON.stringify(data)));
+    const jsonMaster = new NodeSimpleIpc(jsonIpc.master);
+    const jsonChild = new NodeSimpleIpc(jsonIpc.child);
+    const onBlob = jest.fn();
+    jsonChild.add('reverse', (buf: Buffer) => Buffer.from(buf).reverse());
+    jsonChild.on('blob', onBlob);
+
+    const sent: unknown[] = [];
+    jsonIpc.master.on('message', (msg) => sent.push(msg));
+    jsonMaster.emit('blob', { image: new Uint8Array([1, 2, 3]), size: 3 });
+    const reply = await jsonMaster.act('reverse', Buffer.from([1, 2, 3]));
+
+    expect(Buffer.isBuffer(reply)).toBe(true);
+    expect(reply).toEqual(Buffer.from([3, 2, 1]));
+    expect(onBlob).toBeCalledWith({
+      image: new Uint8Array([1, 2, 3]),
+      size: 3,
+    });
+    expect(sent).toContainEqual(
+      expect.objectContaining({
+        binaries: [Buffer.from([3, 2, 1]).toString('base64')],
+      }),
+    );
+  });
+
+  it('should pass binary values as bytes over an advanced channel.', () => {
+    const sent: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => sent.push(msg));
+    const advancedMaster = new NodeSimpleIpc(fakeIpc.master, {
+      serialization: 'advanced',
+    });
+    const onBlob = jest.fn();
+    childIpc.on('blob', onBlob);
+
+    advancedMaster.emit('blob', [Buffer.from('abc')]);
+
+    expect(sent).toContainEqual(
+      expect.objectContaining({ binaries: [new Uint8Array([97, 98, 99])] }),
+    );
+    expect(onBlob).toBeCalledWith([Buffer.from('abc')]);
+    expect(Buffer.isBuffer(onBlob.mock.calls[0][0][0])).toBe(true);
+  });
+
+  it('should encode and decode the frame data with the codec.', async () => {
+    const jsonIpc = new FakeIpc((data) => JSON.parse(JSON.stringify(data)));
+    const codecMaster = new NodeSimpleIpc(jsonIpc.master, {
+      codec: new ExtendedJsonCodec(),
+    });
+    const codecChild = new NodeSimpleIpc(jsonIpc.child, {
+      codec: new ExtendedJsonCodec(),
+    });
+    const onEvent = jest.fn();
+    codecChild.add(
+      'next_day',
+      (date: Date) => new Date(date.getTime() + 864e5),
+    );
+    codecChild.on('counts', onEvent);
+
+    codecMaster.emit('counts', new Map([['a', BigInt(1)]]));
+
+    await expect(codecMaster.act('next_day', new Date(0))).resolves.toEqual(
+      new Date(864e5),
+    );
+    expect(onEvent).toBeCalledWith(new Map([['a', BigInt(1)]]));
+  });
+
+  it('should reject the request when the reply can not be decoded.', async () => {
+    const codec = new ExtendedJsonCodec();
+    const codecMaster = new NodeSimpleIpc(fakeIpc.master, { codec });
+    childIpc.add('tagged', () => ({ $type: 'Unknown', value: 1 }));
+
+    await expect(codecMaster.act('tagged')).rejects.toThrow(
+      'Unknown type tag "Unknown".',
+    );
+  });
+
+  it('should report peer health and latency with heartbeat.', () => {
+    const heartbeatIpc = new NodeSimpleIpc(fakeIpc.master, {
+      heartbeat: true,
+    });
+
+    expect(masterIpc.health).toEqual('unknown');
+    expect(heartbeatIpc.health).toEqual('up');
+    expect(heartbeatIpc.latency).toBeGreaterThanOrEqual(0);
+
+    heartbeatIpc.close();
+  });
+
+  it('should fail pending requests when the peer misses heartbeats.', async () => {
+    const hungIpc = new FakeIpc();
+    const heartbeatIpc = new NodeSimpleIpc(hungIpc.master, {
+      heartbeat: { interval: 5, maxMissed: 2 },
+    });
+    const onDown = jest.fn();
+    const onUp = jest.fn();
+    heartbeatIpc.on('peer:down', onDown);
+    heartbeatIpc.on('peer:up', onUp);
+
+    await expect(heartbeatIpc.act('hung')).rejects.toBeInstanceOf(
+      PeerUnavailableError,
+    );
+    expect(heartbeatIpc.health).toEqual('down');
+    expect(onDown).toBeCalledTimes(1);
+
+    // The peer recovers
+    new NodeSimpleIpc(hungIpc.child);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(heartbeatIpc.health).toEqual('up');
+    expect(onUp).toBeCalledTimes(1);
+
+    heartbeatIpc.close();
+  });
+
+  it('should not announce or receive peer health events from the peer.', () => {
+    const onDown = jest.fn();
+    const onAny = jest.fn();
+    childIpc.on('peer:down', onDown);
+
+    expect(masterIpc.emit('peer:down')).toBe('unsubscribed');
+
+    childIpc.onAny(onAny);
+    expect(masterIpc.emit('peer:down')).toBe(true);
+
+    expect(onAny).toBeCalledWith(undefined, 'peer:down');
+    expect(onDown).not.toBeCalled();
+  });
+
+  it('should queue requests beyond the endpoint concurrency.', async () => {
+    const resolvers: Array<() => void> = [];
+    childIpc.add(
+      'query',
+      () => new Promise<void>((resolve) => resolvers.push(resolve)),
+      { concurrency: 2, maxQueue: 1 },
+    );
+
+    const results = [1, 2, 3].map(() => masterIpc.act('query'));
+
+    expect(resolvers).toHaveLength(2);
+    expect(childIpc.getLoad('query')).toEqual({ active: 2, queued: 1 });
+    expect(childIpc.getLoad()).toEqual({ active: 2, queued: 1 });
+
+    await expect(masterIpc.act('query')).rejects.toBeInstanceOf(
+      OverloadedError,
+    );
+
+    resolvers[0]();
+    await results[0];
+
+    expect(resolvers).toHaveLength(3);
+    expect(childIpc.getLoad('query')).toEqual({ active: 2, queued: 0 });
+
+    resolvers.forEach((resolve) => resolve());
+    await Promise.all(results);
+
+    expect(childIpc.getLoad()).toEqual({ active: 0, queued: 0 });
+    expect(() => childIpc.getLoad('unknown')).toThrow();
+  });
+
+  it('should limit the concurrency of all endpoints of the instance.', async () => {
+    const limitedFakeIpc = new FakeIpc();
+    const callerIpc = new NodeSimpleIpc(limitedFakeIpc.master);
+    const limitedIpc = new NodeSimpleIpc(limitedFakeIpc.child, {
+      concurrency: 1,
+      maxQueue: 0,
+    });
+    let release: () => void = () => undefined;
+    limitedIpc.add(
+      'slow',
+      () => new Promise<void>((resolve) => (release = resolve)),
+    );
+    limitedIpc.add('fast', () => 'fast');
+
+    const slow = callerIpc.act('slow');
+
+    await expect(callerIpc.act('fast')).rejects.toBeInstanceOf(OverloadedError);
+
+    release();
+    await slow;
+
+    await expect(callerIpc.act('fast')).resolves.toEqual('fast');
+  });
+
+  it('should not run queued requests cancelled by the caller.', async () => {
+    const handler = jest.fn(
+      () => new Promise((resolve) => setTimeout(resolve, 10)),
+    );
+    childIpc.add('job', handler, { concurrency: 1 });
+
+    const first = masterIpc.act('job');
+    const controller = createAbortController();
+    const second = masterIpc.act('job', undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(AbortError);
+    await first;
+
+    expect(handler).toBeCalledTimes(1);
+  });
+
+  it('should run a retried request again when the queued attempt was cancelled.', async () => {
+    let release: (() => void) | undefined;
+    let attempts = 0;
+    const handler = jest.fn((n: number) =>
+      n === 0
+        ? new Promise<number>((resolve) => (release = (): void => resolve(n)))
+        : n,
+    );
+    childIpc.add('job', handler, { concurrency: 1 });
+
+    // Free the slot when the second attempt is queued behind the first one
+    fakeIpc.child.on('message', (msg) => {
+      const input = msg as { type: string; data: unknown };
+
+      if (
+        input.type === IpcDataType.Input &&
+        input.data === 1 &&
+        ++attempts === 2
+      ) {
+        release?.();
+      }
+    });
+
+    const blocking = masterIpc.act('job', 0);
+    const retried = masterIpc.act('job', 1, {
+      timeout: 20,
+      retry: { attempts: 2, minDelay: 1 },
+    });
+
+    await expect(retried).resolves.toBe(1);
+    await blocking;
+    expect(handler).toBeCalledTimes(2);
+  });
+
+  it('should pack requests made in the same tick into one batch.', async () => {
+    const batchIpc = new NodeSimpleIpc(fakeIpc.master, { batch: true });
+    const toChild: unknown[] = [];
+    const toMaster: unknown[] = [];
+    childIpc.add('double', (n: number) => n * 2);
+    childIpc.add('fail', () => {
+      throw new Error('Failed.');
+    });
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+    fakeIpc.master.on('message', (msg) => toMaster.push(msg));
+
+    const results = [1, 2, 3].map((n) => batchIpc.act('double', n));
+    const failure = batchIpc.act('fail');
+
+    expect(toChild).toHaveLength(0);
+    await expect(Promise.all(results)).resolves.toEqual([2, 4, 6]);
+    await expect(failure).rejects.toThrow('Failed.');
+
+    expect(toChild).toEqual([
+      expect.objectContaining({
+        type: IpcDataType.Batch,
+        frames: expect.arrayContaining([
+          expect.objectContaining({ type: IpcDataType.Input, data: 1 }),
+        ]),
+      }),
+    ]);
+    expect(toMaster).toEqual([
+      expect.objectContaining({
+        type: IpcDataType.Batch,
+        frames: expect.arrayContaining([
+          expect.objectContaining({ type: IpcDataType.Output, data: 2 }),
+        ]),
+      }),
+    ]);
+
+    batchIpc.close();
+  });
+
+  it('should collect requests during the batching window.', async () => {
+    const batchIpc = new NodeSimpleIpc(fakeIpc.master, {
+      batch: { window: 10, maxSize: 3 },
+    });
+    const toChild: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+    childIpc.add('echo', (n: number) => n);
+
+    const first = batchIpc.act('echo', 1);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    const second = batchIpc.act('echo', 2);
+
+    expect(toChild).toHaveLength(0);
+    await expect(Promise.all([first, second])).resolves.toEqual([1, 2]);
+    expect(toChild).toHaveLength(1);
+
+    // A full batch is sent immediately
+    const results = [1, 2, 3].map((n) => batchIpc.act('echo', n));
+    expect(toChild).toHaveLength(2);
+    await Promise.all(results);
+
+    batchIpc.close();
+  });
+
+  it('should keep the order of events sent after batched requests.', async () => {
+    const batchIpc = new NodeSimpleIpc(fakeIpc.master, { batch: true });
+    const toChild: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+    childIpc.add('first', () => undefined);
+    childIpc.on('second', () => undefined);
+
+    const result = batchIpc.act('first');
+    batchIpc.emit('second');
+    await result;
+
+    expect(toChild).toEqual([
+      {
+        type: IpcDataType.Batch,
+        frames: [
+          expect.objectContaining({ type: IpcDataType.Input, name: 'first' }),
+          expect.objectContaining({ type: IpcDataType.Event, name: 'second' }),
+        ],
+      },
+    ]);
+
+    batchIpc.close();
+  });
+
+  it('should batch requests made with batch().', async () => {
+    const toChild: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+    childIpc.add('double', (n: number) => n * 2);
+
+    const result = await masterIpc.batch((b) =>
+      Promise.all([b.act('double', 1), b.act('double', 2)]),
+    );
+
+    expect(result).toEqual([2, 4]);
+    expect(toChild).toEqual([
+      expect.objectContaining({ type: IpcDataType.Batch }),
+    ]);
+
+    // Requests made outside of batch() are sent immediately
+    masterIpc.act('double', 3);
+    expect(toChild).toHaveLength(2);
+  });
+
+  it('should batch requests made with batch() after async middleware.', async () => {
+    const toChild: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+    childIpc.add('double', (n: number) => n * 2);
+    masterIpc.use(async (_ctx, next) => {
+      await Promise.resolve();
+      return next();
+    });
+
+    const result = await masterIpc.batch((b) =>
+      Promise.all([
+        b.act('double', 1),
+        b.act('double', 2),
+        b.act('double', 3, { retry: 2 }),
+      ]),
+    );
+
+    expect(result).toEqual([2, 4, 6]);
+    expect(toChild).toEqual([
+      expect.objectContaining({
+        frames: expect.arrayContaining([
+          expect.objectContaining({ type: IpcDataType.Input }),
+        ]),
+        type: IpcDataType.Batch,
+      }),
+    ]);
+    expect((toChild[0] as { frames: unknown[] }).frames).toHaveLength(3);
+  });
+
+  it('should collect metrics of requests, handlers and events.', async () => {
+    childIpc.add('ok', () => 'ok');
+    childIpc.add('fail', () => {
+      throw new ValidationError('Invalid.');
+    });
+    childIpc.on('tick', () => undefined);
+
+    await masterIpc.act('ok');
+    await expect(masterIpc.act('fail')).rejects.toThrow();
+    await expect(masterIpc.act('fail')).rejects.toThrow();
+    masterIpc.emit('tick');
+
+    const metrics = masterIpc.getMetrics();
+
+    expect(metrics.act.ok).toMatchObject({ calls: 1, inFlight: 0 });
+    expect(metrics.act.fail).toMatchObject({
+      calls: 2,
+      errors: { ValidationError: 2 },
+    });
+    expect(metrics.act.fail.latency.count).toEqual(2);
+    expect(metrics.events.emitted).toEqual({ tick: 1 });
+    expect(childIpc.getMetrics().handle.fail).toMatchObject({
+      calls: 2,
+      errors: { ValidationError: 2 },
+    });
+    expect(childIpc.getMetrics().events.received).toEqual({ tick: 1 });
+  });
+
+  it('should link spans across processes with the tracer.', async () => {
+    const spans: Array<{ name: string } & IpcSpanOptions> = [];
+    let spanId = 0;
+    const tracer: IpcTracer = {
+      startSpan: (name, options) => {
+        spans.push({ name, ...options });
+        return {
+          context: { traceId: 'trace', spanId: String(++spanId) },
+          setError: jest.fn(),
+          end: jest.fn(),
+        };
+      },
+    };
+    const tracedFakeIpc = new FakeIpc();
+    const tracedMaster = new NodeSimpleIpc(tracedFakeIpc.master, { tracer });
+    const tracedChild = new NodeSimpleIpc(tracedFakeIpc.child, { tracer });
+    tracedChild.add('job', () => 'done');
+    tracedChild.on('tick', () => undefined);
+
+    await tracedMaster.act('job');
+    tracedMaster.emit('tick');
+
+    expect(spans).toEqual([
+      { name: 'job', kind: 'client' },
+      {
+        name: 'job',
+        kind: 'server',
+        parent: { traceId: 'trace', spanId: '1' },
+      },
+      { name: 'tick', kind: 'producer' },
+      {
+        name: 'tick',
+        kind: 'consumer',
+        parent: { traceId: 'trace', spanId: '3' },
+      },
+    ]);
+  });
+
+  it('should call pattern listeners with the event name.', () => {
+    const onAnyJob = jest.fn();
+    const onJobStep = jest.fn();
+    const onAll = jest.fn();
+    childIpc.on('job.**', onAnyJob);
+    childIpc.on('job.*.done', onJobStep);
+    childIpc.onAny(onAll);
+
+    masterIpc.emit('job.1.done', 'result');
+    masterIpc.emit('job.1.progress.step', 50);
+    masterIpc.emit('other', true);
+
+    expect(onAnyJob.mock.calls).toEqual([
+      ['result', 'job.1.done'],
+      [50, 'job.1.progress.step'],
+    ]);
+    expect(onJobStep).toBeCalledWith('result', 'job.1.done');
+    expect(onJobStep).toBeCalledTimes(1);
+    expect(onAll).toBeCalledTimes(3);
+    expect(onAll).toHaveBeenLastCalledWith(true, 'other');
+  });
+
+  it('should remove pattern listeners with off() and once().', () => {
+    const onJob = jest.fn();
+    const onceJob = jest.fn();
+    childIpc.on('job.*', onJob, { schema: { parse: (data) => data } });
+    childIpc.once('job.*', onceJob);
+
+    masterIpc.emit('job.a');
+    childIpc.off('job.*', onJob);
+    masterIpc.emit('job.b');
+
+    expect(onJob).toBeCalledTimes(1);
+    expect(onceJob).toBeCalledTimes(1);
+    expect(onceJob).toBeCalledWith(undefined, 'job.a');
+  });
+
+  it('should not send events the peer does not listen to.', () => {
+    const toChild: unknown[] = [];
+    fakeIpc.child.on('message', (msg) => toChild.push(msg));
+
+    expect(masterIpc.emit('telemetry', 1)).toBe('unsubscribed');
+
+    const remove = childIpc.on('telemetry', () => undefined);
+    expect(masterIpc.emit('telemetry', 2)).toBe(true);
+
+    remove();
+    expect(masterIpc.emit('telemetry', 3)).toBe('unsubscribed');
+    expect(masterIpc.emit('telemetry', 4, { force: true })).toBe(true);
+
+    childIpc.once('job.*', () => undefined);
+    expect(masterIpc.emit('job.a')).toBe(true);
+    expect(masterIpc.emit('job.b')).toBe('unsubscribed');
+
+    expect(
+      toChild
+        .filter((msg) => (msg as IpcEvent).type === IpcDataType.Event)
+        .map((msg) => (msg as IpcEvent).name),
+    ).toEqual(['telemetry', 'telemetry', 'job.a']);
+  });
+
+  it('should announce the subscriptions again only when one-time listeners fired.', () => {
+    childIpc.on('telemetry', () => undefined);
+    childIpc.on('telemetry.*', () => undefined);
+    childIpc.once('done', () => undefined);
+    const eventNames = jest.spyOn(EventEmitter.prototype, 'eventNames');
+
+    for (let i = 0; i < 10; i++) {
+      masterIpc.emit('telemetry', i);
+      masterIpc.emit('telemetry.cpu', i);
+    }
+
+    expect(eventNames).not.toBeCalled();
+
+    masterIpc.emit('done');
+
+    expect(eventNames).toBeCalledTimes(1);
+    expect(masterIpc.emit('done')).toBe('unsubscribed');
+
+    eventNames.mockRestore();
+  });
+
+  it('should send events until the peer announces its subscriptions.', () => {
+    const ipc = new FakeIpc();
+    const master = new NodeSimpleIpc(ipc.master);
+    ipc.child.on('message', () => undefined);
+
+    expect(master.emit('telemetry')).toBe(true);
+
+    const child = new NodeSimpleIpc(ipc.child);
+
+    expect(master.emit('telemetry')).toBe('unsubscribed');
+
+    master.close();
+    child.close();
+  });
+
+  it('should queue messages while the IPC process signals backpressure.', async () => {
+    const sent: { type: IpcDataType; name?: string }[] = [];
+    const callbacks: IpcSendCallback[] = [];
+    let accept = false;
+    const ipcProcess = new FakeIpcProcess((data, callback) => {
+      sent.push(data as { type: IpcDataType });
+      callbacks.push(callback as IpcSendCallback);
+      return accept;
+    });
+    const ipc = new NodeSimpleIpc(ipcProcess);
+
+    expect(ipc.emit('first')).toBe(false);
+    const flushed = jest.fn();
+    ipc.emitAsync('second').then(flushed);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sent.map((frame) => frame.type)).toEqual([IpcDataType.RpcNames]);
+    expect(flushed).not.toBeCalled();
+
+    accept = true;
+    callbacks[0](null);
+    callbacks.slice(1).forEach((callback) => callback(null));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sent.map((frame) => frame.name ?? frame.type)).toEqual([
+      IpcDataType.RpcNames,
+      IpcDataType.Subscriptions,
+      'first',
+      'second',
+    ]);
+    expect(flushed).toBeCalledWith(true);
+
+    ipc.close();
+  });
+
+  it('should reject requests with ChannelClosedError when the channel fails.', async () => {
+    const ipcProcess = new FakeIpcProcess((_data, callback) => {
+      process.nextTick(() => callback?.(new Error('Channel closed.')));
+      return false;
+    });
+    const ipc = new NodeSimpleIpc(ipcProcess, { actTimeout: 60e3 });
+
+    const err = (await ipc
+      .act('rpc')
+      .catch((err) => err)) as ChannelClosedError;
+
+    expect(err).toBeInstanceOf(ChannelClosedError);
+    expect(err.cause).toEqual(new Error('Channel closed.'));
+    await expect(ipc.emitAsync('event')).rejects.toThrow(ChannelClosedError);
+
+    ipc.close();
+  });
+
+  it('should pass errors thrown by send() through unchanged.', async () => {
+    const jsonIpc = new FakeIpc((data) => JSON.parse(JSON.stringify(data)));
+    const jsonMaster = new NodeSimpleIpc(jsonIpc.master);
+    const jsonChild = new NodeSimpleIpc(jsonIpc.child);
+    jsonChild.add('echo', (data) => data);
+    jsonChild.on('event', () => undefined);
+
+    await expect(jsonMaster.act('echo', { n: BigInt(1) })).rejects.toThrow(
+      TypeError,
+    );
+    expect(() => jsonMaster.emit('event', { n: BigInt(1) })).toThrow(TypeError);
+    await expect(jsonMaster.act('echo', 1)).resolves.toEqual(1);
+
+    jsonMaster.close();
+    jsonChild.close();
+  });
+
+  it('should reject events waiting for the channel on close.', async () => {
+    const ipc = new NodeSimpleIpc(new FakeIpcProcess(() => false));
+    const flushed = ipc.emitAsync('event');
+
+    ipc.close();
+
+    await expect(flushed).rejects.toThrow(ClosedError);
+  });
+
+  it('should split large messages into fragments and reassemble them.', async () => {
+    const ipc = new FakeIpc((data) => JSON.parse(JSON.stringify(data)));
+    const master = new NodeSimpleIpc(ipc.master, { maxFrameSize: 300 });
+    const child = new NodeSimpleIpc(ipc.child, { maxFrameSize: 300 });
+    const frameSizes: number[] = [];
+    ipc.child.on('message', (msg) =>
+      frameSizes.push(JSON.stringify(msg).length),
+    );
+    child.add('echo', (data: unknown) => data);
+
+    const payload = { text: 'x'.repeat(1000), file: Buffer.from('binary') };
+
+    await expect(master.act('echo', payload)).resolves.toEqual(payload);
+    expect(frameSizes.length).toBeGreaterThan(5);
+    expect(Math.max(...frameSizes)).toBeLessThanOrEqual(300);
+
+    master.close();
+    child.close();
+  });
+
+  it('should reject messages when the fragment envelope exceeds the maximum frame size.', async () => {
+    const ipc = new FakeIpc();
+    const master = new NodeSimpleIpc(ipc.master, { maxFrameSize: 100 });
+    const child = new NodeSimpleIpc(ipc.child);
+    child.add('echo', (data: unknown) => data);
+
+    await expect(master.act('echo', 'x'.repeat(1000))).rejects.toThrow(
+      'The maxFrameSize option (100 bytes) is too small for the fragment envelope.',
+    );
+
+    master.close();
+    child.close();
+  });
+
+  it('should reassemble fragments serialized differently by the peer.', async () => {
+    const ipc = new FakeIpc();
+    // The parent can not detect the serialization of the channel
+    const master = new NodeSimpleIpc(ipc.master, { maxFrameSize: 300 });
+    const child = new NodeSimpleIpc(ipc.child, {
+      maxFrameSize: 300,
+      serialization: 'advanced',
+    });
+    child.add('large', () => 'x'.repeat(5000));
+
+    await expect(master.act('large')).resolves.toHaveLength(5000);
+
+    master.close();
+    child.close();
+  });
+
+  it('should send other messages between the fragments.', async () => {
+    const ipc = new FakeIpc();
+    const master = new NodeSimpleIpc(ipc.master, { maxFrameSize: 300 });
+    const child = new NodeSimpleIpc(ipc.child);
+    const received: string[] = [];
+    child.on('large', () => received.push('large'));
+    child.add('small', () => received.push('small'));
+
+    const large = master.emitAsync('large', 'x'.repeat(1000));
+    await master.act('small');
+    await large;
+
+    expect(received).toEqual(['small', 'large']);
+
+    master.close();
+    child.close();
+  });
+
+  it('should drop fragmented messages larger than the maximum message size.', async () => {
+    const ipc = new FakeIpc();
+    const master = new NodeSimpleIpc(ipc.master, { maxFrameSize: 300 });
+    const child = new NodeSimpleIpc(ipc.child, { maxMessageSize: 500 });
+    const onLarge = jest.fn();
+    child.on('large', onLarge);
+
+    await master.emitAsync('large', 'x'.repeat(1000));
+
+    expect(onLarge).not.toBeCalled();
+
+    master.close();
+    child.close();
+  });
 });
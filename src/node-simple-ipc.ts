@@ -1,5 +1,12 @@
 import { EventEmitter } from 'events';
-import { TimeoutError, RemoteError } from './errors';
+import {
+  TimeoutError,
+  ClosedError,
+  AbortError,
+  PeerUnavailableError,
+  ChannelClosedError,
+  RPC_NOT_FOUND_CODE,
+} from './errors';
 import {
   IpcInput,
   IpcOutput,
@@ -7,24 +14,223 @@ import {
   IpcDataType,
   IpcProcess,
   IpcActOptions,
+  IpcActStreamOptions,
+  IpcWaitForOptions,
+  IpcAddOptions,
+  IpcEventOptions,
+  IpcEmitOptions,
+  IpcEmitResult,
+  IpcValidator,
+  IpcMetadata,
+  IpcMiddleware,
+  IpcMiddlewareContext,
+  IpcStreamChunk,
+  IpcStreamEnd,
+  IpcStreamError,
+  IpcStreamPull,
+  IpcCancel,
+  IpcProgress,
+  IpcRpcNames,
+  IpcSubscriptions,
+  IpcPing,
+  IpcPong,
+  IpcPeerHealth,
+  IpcMetrics,
+  IpcTracer,
+  IpcSpan,
+  IpcTraceContext,
+  IpcBatch,
+  IpcFragment,
+  IpcCallbackRelease,
+  IpcCallbackStub,
+  IpcServiceProxy,
+  IpcBatchOptions,
+  IpcBatchContext,
+  IpcLoad,
+  IpcHeartbeatOptions,
+  IpcCodec,
   IpcHandler,
+  IpcHandlerContext,
   EventHandler,
   NodeSimpleIpcOptions,
   RemoveHandler,
 } from './types';
 import {
   serializeError,
+  deserializeError,
+  validateValue,
+  runMiddleware,
+  assertValidMiddleware,
+  normalizeRetryOptions,
+  retryDelay,
+  IdempotencyCache,
+  ConcurrencyLimiter,
   isIpcEvent,
   isIpcInput,
   isIpcOutput,
+  isIpcStreamChunk,
+  isIpcStreamEnd,
+  isIpcStreamError,
+  isIpcStreamPull,
+  isIpcCancel,
+  isIpcProgress,
+  isIpcRpcNames,
+  isIpcSubscriptions,
+  isIpcPing,
+  isIpcPong,
+  isIpcBatch,
+  isIpcFragment,
+  isIpcCallbackRelease,
+  extractCallbacks,
+  restoreCallbacks,
+  CALLBACK_RPC_NAME,
+  FragmentAssembler,
+  serializeMessage,
+  fragmentChunkSize,
+  reassembleFragment,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  DEFAULT_REASSEMBLY_TIMEOUT,
   assertValidIpcName,
   assertValidIpcHandler,
   uniqueId,
+  createAbortController,
+  toAsyncIterator,
+  isEventPattern,
+  compileEventPattern,
+  EventPatternMatcher,
+  detectSerialization,
+  encodeBinaryFrame,
+  decodeBinaryFrame,
 } from './utils';
+import { MetricsCollector, DEFAULT_LATENCY_BUCKETS } from './instrumentation';
+import { IpcNamespace } from './ipc-namespace';
+
+// Event emitted on the RPC event emitter when the peer sends its RPC names.
+const REMOTE_NAMES_EVENT = Symbol('remoteNames');
+
+// Reserved names of the peer health events, emitted locally only.
+const PEER_EVENTS = ['peer:up', 'peer:down'];
+
+// Longest delay of setTimeout(), longer delays (e.g. Infinity) expire at once.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Starts a timeout timer, except for timeouts which never expire (e.g. Infinity).
+function startTimeout(
+  onTimeout: () => void,
+  timeout: number,
+): NodeJS.Timeout | undefined {
+  return timeout <= MAX_TIMER_DELAY
+    ? setTimeout(onTimeout, timeout)
+    : undefined;
+}
+
+// Returns the metadata field of a frame, omitted when the metadata is empty.
+function metadataField(metadata?: IpcMetadata): { metadata?: IpcMetadata } {
+  return metadata && Object.keys(metadata).length > 0 ? { metadata } : {};
+}
+
+// Returns the names of the methods of a service object and of its class.
+// Inherited methods (e.g. of EventEmitter), constructors, accessors and names starting with "_" are skipped.
+function serviceMethods(service: object): string[] {
+  const names: Set<string> = new Set();
+  const proto: object | null = Object.getPrototypeOf(service);
+
+  [service, proto]
+    .filter((current): current is object =>
+      Boolean(current && current !== Object.prototype),
+    )
+    .forEach((current) =>
+      Object.getOwnPropertyNames(current).forEach((name) => {
+        const descriptor = Object.getOwnPropertyDescriptor(current, name);
+
+        if (
+          name !== 'constructor' &&
+          !name.startsWith('_') &&
+          typeof descriptor?.value === 'function'
+        ) {
+          names.add(name);
+        }
+      }),
+    );
+
+  return Array.from(names);
+}
+
+// Record the result of an instrumented operation in the metrics and the span.
+function instrument<T>(
+  result: Promise<T>,
+  finish: (err?: unknown) => void,
+  span?: IpcSpan,
+): Promise<T> {
+  return result.then(
+    (value) => {
+      finish();
+      span?.end();
+      return value;
+    },
+    (err: unknown) => {
+      finish(err);
+      span?.setError(err);
+      span?.end();
+      throw err;
+    },
+  );
+}
+
+// Codec used when no codec is set, the data is sent as is.
+const IDENTITY_CODEC: IpcCodec = {
+  encode: (data) => data,
+  decode: (data) => data,
+};
+
+// Frames sent immediately even when batched frames are pending, their order does not matter.
+const UNBATCHED_TYPES: unknown[] = [
+  IpcDataType.RpcNames,
+  IpcDataType.Subscriptions,
+  IpcDataType.Ping,
+  IpcDataType.Pong,
+];
+
+// A message to send and its callback, called with an error if the message could not be sent.
+interface OutgoingMessage {
+  message: object;
+  done?: (err?: Error) => void;
+}
+
+// A message split into fragments, sent one fragment per round.
+interface FragmentedMessage {
+  id: string;
+  outgoing: OutgoingMessage;
+  bytes: Buffer;
+  // Number of bytes per fragment.
+  chunkSize: number;
+  count: number;
+  // Index of the next fragment to send.
+  next: number;
+  failed: boolean;
+}
+
+// Request options, including the internal ones.
+interface RequestOptions extends IpcActOptions {
+  // Whether the request is sent in a batch (made with batch()).
+  batch?: boolean;
+}
+
+// Controls a stream produced by a local RPC endpoint.
+interface StreamProducer {
+  pull(count: number): void;
+  cancel(): void;
+}
 
 export class NodeSimpleIpc {
   private ipcProcess: IpcProcess;
-  private options: Required<NodeSimpleIpcOptions>;
+  private options: Required<Omit<NodeSimpleIpcOptions, 'tracer'>>;
+
+  // Tracer of requests and events. Nothing is traced if not set.
+  private tracer?: IpcTracer;
+
+  // Metrics of requests and events.
+  private metrics: MetricsCollector;
 
   // Event emitter used for RPC responses.
   private rpcEm: EventEmitter;
@@ -32,12 +238,119 @@ export class NodeSimpleIpc {
   // The event emitter used for events is isolated to make sure the RPC logic is not affected.
   private eventsEm: EventEmitter;
 
+  // Event emitter of the peer health events, so the peer can not emit them and they are not announced.
+  private peerEm: EventEmitter;
+
+  // Compiled event patterns with listeners, by pattern.
+  private eventPatterns: Map<string, EventPatternMatcher> = new Map();
+
+  // Event names and patterns last sent to the peer.
+  private announcedEvents?: string;
+
+  // Event names the peer listens to. Undefined until the peer sends them.
+  private remoteEvents?: Set<string>;
+
+  // Compiled event patterns the peer listens to.
+  private remoteEventPatterns: EventPatternMatcher[] = [];
+
   // Store registered RPC endpoint names.
-  private registeredRpcNames: Record<string, number> = {};
+  private registeredRpcNames: Set<string> = new Set();
+
+  // RPC endpoint names registered by the peer. Undefined until the peer sends them.
+  private remoteRpcNames?: Set<string>;
+
+  // Store the input handlers of registered RPC endpoints.
+  private rpcInputHandlers: Map<string, (input: IpcInput) => void> = new Map();
+
+  // Store the concurrency limiters of registered RPC endpoints.
+  private rpcLimiters: Map<string, ConcurrencyLimiter> = new Map();
+
+  // Concurrency limiter shared by all RPC endpoints.
+  private handlerLimiter: ConcurrencyLimiter;
+
+  // Store the remove functions of registered RPC endpoints.
+  private rpcRemoveHandlers: Map<string, RemoveHandler> = new Map();
+
+  // Store the reject functions of pending RPC requests and waits.
+  private pendingActs: Map<string, (err: Error) => void> = new Map();
+
+  // Store the functions passed in the data of pending RPC requests by handle id.
+  private callbackHandles: Map<string, (...args: unknown[]) => unknown> =
+    new Map();
+
+  // Store the progress listeners of pending RPC requests.
+  private progressListeners: Map<string, (progress: IpcProgress) => void> =
+    new Map();
+
+  // Store the abort controllers of requests processed by local RPC endpoints.
+  private handlerControllers: Map<string, AbortController> = new Map();
+
+  // Store the streams produced by local RPC endpoints.
+  private streamProducers: Map<string, StreamProducer> = new Map();
+
+  // Recent results of idempotent requests by RPC name and idempotency key.
+  private idempotencyCache: IdempotencyCache;
+
+  // Middleware chain, the first middleware is the outermost one.
+  private middlewares: IpcMiddleware[] = [];
 
   // IPC message handler used for IPC message listener.
   private messageHandler: (msg: unknown) => void;
 
+  // Close handler used for "exit" and "disconnect" listeners.
+  private closeHandler: () => void;
+
+  // Whether the instance was closed.
+  private isClosed = false;
+
+  // Batching options, also used by batch() when the "batch" option is disabled.
+  private batchOptions: Required<IpcBatchOptions>;
+
+  // Frames waiting to be sent in a batch.
+  private outbox: OutgoingMessage[] = [];
+
+  // Messages waiting until the IPC process accepts more of them.
+  private writeQueue: OutgoingMessage[] = [];
+
+  // Whether the IPC process signaled backpressure and the callback of that message is pending.
+  private writeBlocked = false;
+
+  // Messages larger than the maximum frame size being sent.
+  private fragmentedMessages: FragmentedMessage[] = [];
+
+  // Whether the next round of fragments is scheduled.
+  private fragmentsScheduled = false;
+
+  // Reassembles received fragmented messages.
+  private assembler: FragmentAssembler;
+
+  // Whether the outbox flush is scheduled.
+  private flushScheduled = false;
+
+  // Timer of the scheduled outbox flush. Set only if the batching window is not zero.
+  private flushTimer?: NodeJS.Timeout;
+
+  // Correlation ids of requests received in a batch. Their replies are batched too.
+  private batchedRequests: Set<string> = new Set();
+
+  // Heartbeat timer. Set only if heartbeat is enabled.
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  // Sequence number of the last sent ping.
+  private pingId = 0;
+
+  // Send time of the last ping, undefined when the pong was received.
+  private pingSentAt?: number;
+
+  // Number of missed pongs in a row.
+  private missedPongs = 0;
+
+  // Peer health detected by heartbeat.
+  private peerHealth: IpcPeerHealth = 'unknown';
+
+  // Round-trip time of the last answered ping.
+  private peerLatency?: number;
+
   /**
    * Constructor.
    *
@@ -48,50 +361,334 @@ export class NodeSimpleIpc {
     ipcProcess: IpcProcess = process,
     options?: NodeSimpleIpcOptions,
   ) {
+    const { tracer, ...ipcOptions } = options ?? {};
+
     this.ipcProcess = ipcProcess;
+    this.tracer = tracer;
     this.options = {
       actTimeout: 30e3,
-      ...options,
+      idempotencyCacheSize: 1000,
+      serialization: detectSerialization(ipcProcess),
+      codec: IDENTITY_CODEC,
+      heartbeat: false,
+      batch: false,
+      concurrency: Infinity,
+      maxQueue: Infinity,
+      latencyBuckets: DEFAULT_LATENCY_BUCKETS,
+      maxFrameSize: Infinity,
+      maxMessageSize: DEFAULT_MAX_MESSAGE_SIZE,
+      reassemblyTimeout: DEFAULT_REASSEMBLY_TIMEOUT,
+      ...ipcOptions,
+    };
+    this.metrics = new MetricsCollector(this.options.latencyBuckets);
+    this.idempotencyCache = new IdempotencyCache(
+      this.options.idempotencyCacheSize,
+    );
+    this.batchOptions = {
+      window: 0,
+      maxSize: 100,
+      ...(this.options.batch === true
+        ? undefined
+        : this.options.batch || undefined),
     };
+    this.handlerLimiter = new ConcurrencyLimiter(
+      this.options.concurrency,
+      this.options.maxQueue,
+    );
+    this.assembler = new FragmentAssembler(
+      this.options.maxMessageSize,
+      this.options.reassemblyTimeout,
+    );
 
     this.messageHandler = this.onIpcMessage.bind(this);
+    this.closeHandler = (): void => this.close();
 
     this.rpcEm = new EventEmitter();
     this.eventsEm = new EventEmitter();
+    this.peerEm = new EventEmitter();
 
     this.ipcProcess.on('message', this.messageHandler);
+    this.ipcProcess.on('exit', this.closeHandler);
+    this.ipcProcess.on('disconnect', this.closeHandler);
+
+    // Ask the peer for its RPC names
+    this.sendRpcNames(true);
+    this.sendSubscriptions();
+
+    this.startHeartbeat();
+  }
+
+  /**
+   * Whether the instance was closed.
+   */
+  public get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Peer health detected by heartbeat. It is "unknown" until the first pong or if heartbeat is disabled.
+   */
+  public get health(): IpcPeerHealth {
+    return this.peerHealth;
+  }
+
+  /**
+   * Round-trip time of the last answered ping in miliseconds. Undefined until the first pong.
+   */
+  public get latency(): number | undefined {
+    return this.peerLatency;
+  }
+
+  /**
+   * Send a frame received from another peer, already encoded for the channel.
+   * The frame waits in the write queue and is split into fragments like the own frames.
+   * Used by IpcHub to route frames between peers.
+   *
+   * @param frame Encoded frame.
+   * @returns The sending result, false if the instance is closed.
+   */
+  public forwardFrame(frame: object): boolean {
+    if (this.isClosed) {
+      return false;
+    }
+
+    return this.write({ message: frame });
+  }
+
+  /**
+   * Returns a view of the instance which prefixes RPC and event names with "<prefix>.".
+   * Useful for modules sharing one channel.
+   *
+   * @param prefix Name prefix.
+   * @returns The namespaced view.
+   */
+  public namespace(prefix: string): IpcNamespace {
+    assertValidIpcName(prefix);
+
+    return new IpcNamespace(this, prefix);
+  }
+
+  /**
+   * Returns a snapshot of the request and event metrics.
+   */
+  public getMetrics(): IpcMetrics {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Names of the registered RPC endpoints.
+   */
+  public get rpcNames(): string[] {
+    return Array.from(this.registeredRpcNames);
+  }
+
+  /**
+   * Close the instance.
+   * Removes all listeners installed on the IPC process, rejects all pending requests with ClosedError
+   * and makes later act(), emit() and add() calls throw.
+   * Called automatically when the IPC process emits "exit" or "disconnect".
+   */
+  public close(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+    }
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    // Fail the messages which were not sent yet
+    const closedError = new ClosedError();
+    this.outbox
+      .splice(0)
+      .concat(this.writeQueue.splice(0))
+      .concat(this.fragmentedMessages.splice(0).map((m) => m.outgoing))
+      .forEach((outgoing) => outgoing.done?.(closedError));
+    this.assembler.clear();
+    this.batchedRequests.clear();
+
+    this.ipcProcess.off('message', this.messageHandler);
+    this.ipcProcess.off('exit', this.closeHandler);
+    this.ipcProcess.off('disconnect', this.closeHandler);
+
+    this.rpcRemoveHandlers.forEach((removeRpc) => removeRpc());
+
+    this.handlerControllers.forEach((controller) => controller.abort());
+
+    this.streamProducers.forEach((producer) => producer.cancel());
+
+    this.pendingActs.forEach((rejectAct) =>
+      rejectAct(new ClosedError('IPC instance closed before reply.')),
+    );
+    this.callbackHandles.clear();
+
+    this.rpcEm.removeAllListeners();
+    this.eventsEm.removeAllListeners();
+    this.peerEm.removeAllListeners();
   }
 
-  private onIpcMessage(data: unknown): void {
+  private onIpcMessage(message: unknown): void {
+    if (isIpcFragment(message)) {
+      this.onFragment(message);
+      return;
+    }
+
+    let data: unknown;
+
+    try {
+      data = this.decodeFrame(message);
+    } catch (err) {
+      this.onDecodeError(message, err);
+      return;
+    }
+
+    if (isIpcBatch(data)) {
+      data.frames.forEach((frame) => {
+        if (isIpcInput(frame)) {
+          this.batchedRequests.add(frame.correlationId);
+        }
+
+        this.onIpcMessage(frame);
+      });
+      return;
+    }
+
     if (isIpcInput(data)) {
+      if (data.name === CALLBACK_RPC_NAME) {
+        this.invokeCallback(data);
+        return;
+      }
+
       // If RPC handler not found then send not found error.
-      if (!(data.name in this.registeredRpcNames)) {
+      const inputHandler = this.rpcInputHandlers.get(data.name);
+
+      if (!inputHandler) {
         this.sendOutput(data, {
           data: undefined,
           error: {
             message: `RPC "${data.name}" not found.`,
+            code: RPC_NOT_FOUND_CODE,
           },
         });
         return;
       }
 
-      // data.name
+      inputHandler(data);
       return;
     }
 
-    if (isIpcOutput(data)) {
+    if (
+      isIpcOutput(data) ||
+      isIpcStreamChunk(data) ||
+      isIpcStreamEnd(data) ||
+      isIpcStreamError(data)
+    ) {
       this.rpcEm.emit(data.correlationId, data);
       return;
     }
 
+    if (isIpcProgress(data)) {
+      this.progressListeners.get(data.correlationId)?.(data);
+      return;
+    }
+
+    if (isIpcCallbackRelease(data)) {
+      this.callbackHandles.delete(data.id);
+      return;
+    }
+
+    if (isIpcStreamPull(data)) {
+      this.streamProducers.get(data.correlationId)?.pull(data.count);
+      return;
+    }
+
+    if (isIpcRpcNames(data)) {
+      this.remoteRpcNames = new Set(data.names);
+      this.rpcEm.emit(REMOTE_NAMES_EVENT, this.remoteRpcNames);
+
+      if (data.sync) {
+        this.sendRpcNames();
+        // The peer has just started, it does not know the subscriptions yet
+        this.sendSubscriptions(true);
+      }
+      return;
+    }
+
+    if (isIpcSubscriptions(data)) {
+      this.remoteEvents = new Set(data.events);
+      this.remoteEventPatterns = data.events
+        .filter(isEventPattern)
+        .map(compileEventPattern);
+      return;
+    }
+
+    if (isIpcPing(data)) {
+      if (this.ipcProcess.send) {
+        this.sendFrame<IpcPong>({ id: data.id, type: IpcDataType.Pong });
+      }
+      return;
+    }
+
+    if (isIpcPong(data)) {
+      // Ignore pongs when heartbeat is disabled
+      if (!this.heartbeatTimer) {
+        return;
+      }
+
+      if (data.id === this.pingId && this.pingSentAt !== undefined) {
+        this.peerLatency = Date.now() - this.pingSentAt;
+        this.pingSentAt = undefined;
+      }
+
+      this.missedPongs = 0;
+      this.setPeerHealth('up');
+      return;
+    }
+
+    if (isIpcCancel(data)) {
+      this.handlerControllers.get(data.correlationId)?.abort();
+      this.streamProducers.get(data.correlationId)?.cancel();
+      return;
+    }
+
     if (isIpcEvent(data)) {
-      this.eventsEm.emit(data.name, data.data);
+      const ctx: IpcMiddlewareContext = {
+        kind: 'event',
+        name: data.name,
+        data: data.data,
+        metadata: data.metadata ?? {},
+        replyMetadata: {},
+      };
+
+      const span = this.tracer?.startSpan(data.name, {
+        kind: 'consumer',
+        parent: data.trace,
+      });
+      this.metrics.countEvent('received', data.name);
+
+      try {
+        runMiddleware(this.middlewares, ctx, () =>
+          this.dispatchEvent(ctx.name, ctx.data),
+        );
+      } catch (err) {
+        span?.setError(err);
+        throw err;
+      } finally {
+        span?.end();
+      }
       return;
     }
   }
 
   /**
    * Start a RPC request.
+   * Functions in the data are passed to the handler as stubs (see IpcCallbackStub).
    *
    * @param name RPC name.
    * @param data Request data (optional).
@@ -103,116 +700,805 @@ export class NodeSimpleIpc {
     data?: unknown,
     options?: IpcActOptions,
   ): Promise<D> {
+    return this.actWith<D>(name, data, options);
+  }
+
+  /**
+   * Start a RPC request with the internal request options.
+   *
+   * @param name RPC name.
+   * @param data Request data.
+   * @param options Request options.
+   * @returns The response.
+   */
+  private actWith<D>(
+    name: string,
+    data: unknown,
+    options?: RequestOptions,
+  ): Promise<D> {
+    this.assertNotClosed();
     assertValidIpcName(name);
 
-    const finOpts: Required<IpcActOptions> = {
+    const { retry, ...attemptOptions } = options ?? {};
+
+    if (!retry) {
+      return this.actAttempt<D>(name, data, attemptOptions);
+    }
+
+    const retryOpts = normalizeRetryOptions(retry);
+
+    // All attempts share the idempotency key, so the handler can detect duplicates
+    const finOpts: RequestOptions = {
+      idempotencyKey: uniqueId(),
+      ...attemptOptions,
+    };
+
+    const attempt = (attemptNumber: number): Promise<D> =>
+      this.actAttempt<D>(name, data, finOpts).catch((err: unknown) => {
+        if (
+          attemptNumber >= retryOpts.attempts ||
+          this.isClosed ||
+          finOpts.signal?.aborted ||
+          !retryOpts.shouldRetry(err, attemptNumber)
+        ) {
+          throw err;
+        }
+
+        return new Promise<void>((resolve) => {
+          const { signal } = finOpts;
+
+          // Stop waiting on abort, the next attempt rejects with AbortError
+          const wake = (): void => {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', wake);
+            resolve();
+          };
+
+          const timeoutId = setTimeout(
+            wake,
+            retryDelay(attemptNumber, retryOpts),
+          );
+
+          signal?.addEventListener('abort', wake);
+        }).then(() => attempt(attemptNumber + 1));
+      });
+
+    return attempt(1);
+  }
+
+  /**
+   * Run one attempt of a RPC request through the middleware chain.
+   *
+   * @param name RPC name.
+   * @param data Request data.
+   * @param options Request options.
+   * @returns The response.
+   */
+  private actAttempt<D>(
+    name: string,
+    data: unknown,
+    options: RequestOptions,
+  ): Promise<D> {
+    const finOpts: RequestOptions & Required<Pick<IpcActOptions, 'timeout'>> = {
       timeout: this.options.actTimeout,
       ...options,
     };
 
-    const correlationId = uniqueId();
-    let timeoutId: NodeJS.Timeout;
+    const ctx: IpcMiddlewareContext = {
+      kind: 'act',
+      name,
+      data,
+      metadata: {},
+      replyMetadata: {},
+      correlationId: uniqueId(),
+    };
+
+    const finish = this.metrics.startCall('act', name);
+    const span = this.tracer?.startSpan(name, { kind: 'client' });
+
+    return instrument(
+      new Promise((resolve) => {
+        this.assertNotClosed();
+
+        resolve(
+          runMiddleware(this.middlewares, ctx, () =>
+            this.request<D>(ctx, finOpts, span?.context),
+          ) as Promise<D>,
+        );
+      }),
+      finish,
+      span,
+    );
+  }
+
+  /**
+   * Send a RPC request and wait for the response.
+   *
+   * @param ctx Middleware context of the request.
+   * @param finOpts Request options.
+   * @param trace Trace context of the caller span.
+   * @returns The response.
+   */
+  private request<D>(
+    ctx: IpcMiddlewareContext,
+    finOpts: RequestOptions & Required<Pick<IpcActOptions, 'timeout'>>,
+    trace?: IpcTraceContext,
+  ): Promise<D> {
+    const { name } = ctx;
+    const correlationId = ctx.correlationId ?? uniqueId();
+    const { signal, onProgress } = finOpts;
+    let timeoutId: NodeJS.Timeout | undefined;
 
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError(`Request aborted. IPC name: ${name}.`));
+        return;
+      }
+
+      // Functions in the data are called back by the handler through stubs
+      const { data, callbacks } = extractCallbacks(ctx.data, (fn) => {
+        const id = uniqueId();
+        this.callbackHandles.set(id, fn);
+        return id;
+      });
+
+      // Remove all listeners related to the request
+      const cleanup = (): void => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        this.rpcEm.off(correlationId, listenReply);
+        this.pendingActs.delete(correlationId);
+        this.progressListeners.delete(correlationId);
+        callbacks.forEach((id) => this.callbackHandles.delete(id));
+        signal?.removeEventListener('abort', onAbort);
+      };
+
       // Event handler
       const listenReply = (ipcOutput: IpcOutput<D>): void => {
-        clearTimeout(timeoutId);
+        cleanup();
+        Object.assign(ctx.replyMetadata, ipcOutput.metadata);
 
         if (ipcOutput.error) {
-          reject(new RemoteError(ipcOutput.error.message, ipcOutput.error));
+          reject(deserializeError(ipcOutput.error));
         } else {
           resolve(ipcOutput.data);
         }
       };
 
+      // Notify the remote handler and throw the error
+      const cancel = (err: Error): void => {
+        cleanup();
+        this.sendCancel(correlationId, name);
+        reject(err);
+      };
+
+      const onAbort = (): void => {
+        cancel(new AbortError(`Request aborted. IPC name: ${name}.`));
+      };
+
       // Register event handler
       this.rpcEm.once(correlationId, listenReply);
 
       // Process timeout case
-      timeoutId = setTimeout(() => {
-        // Remove listener
-        this.rpcEm.off(correlationId, listenReply);
-        // Throw timeout error
-        reject(new TimeoutError(`Reply timeout. IPC name: ${name}.`));
+      timeoutId = startTimeout(() => {
+        cancel(new TimeoutError(`Reply timeout. IPC name: ${name}.`));
       }, finOpts.timeout);
 
-      this.sendInput({
-        correlationId,
-        name,
-        data,
+      // Process abort case
+      signal?.addEventListener('abort', onAbort);
+
+      // Process close case
+      this.pendingActs.set(correlationId, (err: Error) => {
+        cleanup();
+        reject(err);
       });
+
+      if (onProgress) {
+        this.progressListeners.set(correlationId, (progress) =>
+          onProgress(progress.event, progress.data),
+        );
+      }
+
+      this.sendInput(
+        {
+          correlationId,
+          name,
+          data,
+          ...(callbacks.length > 0 && { callbacks }),
+          ...(finOpts.idempotencyKey !== undefined && {
+            idempotencyKey: finOpts.idempotencyKey,
+          }),
+          ...(Number.isFinite(finOpts.timeout) && {
+            deadline: Date.now() + finOpts.timeout,
+          }),
+          ...(onProgress && { progress: true }),
+          ...(trace && { trace }),
+          ...metadataField(ctx.metadata),
+        },
+        finOpts.batch,
+      );
     });
   }
 
   /**
-   * Add a RPC endpoint.
+   * Start a stream RPC request.
+   * The request is sent on the first next() call. Closing the iterator early cancels the remote stream.
    *
    * @param name RPC name.
-   * @param handlerFn Handler function.
-   * @returns Function you can call to remove the RPC endpoint.
+   * @param data Request data (optional).
+   * @param options Stream request options.
+   * @returns Async iterator of the received chunks.
    */
-  public add<I = unknown, O = unknown>(
+  public actStream<D = unknown>(
     name: string,
-    handlerFn: IpcHandler<I, O>,
-  ): RemoveHandler {
+    data?: unknown,
+    options?: IpcActStreamOptions,
+  ): AsyncIterableIterator<D> {
+    this.assertNotClosed();
     assertValidIpcName(name);
-    assertValidIpcHandler(handlerFn);
 
-    if (name in this.registeredRpcNames) {
-      throw new Error(`The RPC named "${name}" already exists.`);
-    }
+    const finOpts: Required<IpcActStreamOptions> = {
+      timeout: this.options.actTimeout,
+      highWaterMark: 16,
+      ...options,
+    };
 
-    this.registeredRpcNames[name] = 1;
+    const correlationId = uniqueId();
+    const buffer: D[] = [];
+    const waiters: Array<{
+      resolve: (result: IteratorResult<D>) => void;
+      reject: (err: Error) => void;
+    }> = [];
+    let started = false;
+    let ended = false;
+    let failure: Error | undefined;
+    let timeoutId: NodeJS.Timeout | undefined;
 
-    const messageListener = (message: unknown): void => {
-      // Ignore all messages not related to this lib
-      if (!isIpcInput(message)) {
-        return;
+    const stopTimeout = (): void => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = undefined;
+      }
+    };
+
+    // Resolve waiting next() calls with buffered chunks, error or end
+    const settle = (): void => {
+      while (waiters.length > 0) {
+        if (buffer.length > 0) {
+          waiters.shift()?.resolve({ value: buffer.shift() as D, done: false });
+
+          // Give the producer credit for the consumed chunk
+          if (!ended) {
+            this.sendFrame<IpcStreamPull>({
+              correlationId,
+              name,
+              count: 1,
+              type: IpcDataType.StreamPull,
+            });
+          }
+        } else if (failure) {
+          waiters.shift()?.reject(failure);
+          failure = undefined;
+        } else if (ended) {
+          waiters.shift()?.resolve({ value: undefined, done: true });
+        } else {
+          break;
+        }
+      }
+
+      stopTimeout();
+
+      // Process timeout case
+      if (waiters.length > 0) {
+        timeoutId = startTimeout(() => {
+          this.sendCancel(correlationId, name);
+          end(new TimeoutError(`Stream timeout. IPC name: ${name}.`));
+        }, finOpts.timeout);
       }
+    };
+
+    const end = (err?: Error): void => {
+      ended = true;
+      failure = err;
+      stopTimeout();
+      this.rpcEm.off(correlationId, listenFrame);
+      this.pendingActs.delete(correlationId);
+      settle();
+    };
 
-      const ipcInput = message as IpcInput<I>;
+    // Event handler
+    const listenFrame = (frame: unknown): void => {
+      if (isIpcStreamChunk(frame)) {
+        buffer.push(frame.data as D);
+        settle();
+      } else if (isIpcStreamEnd(frame)) {
+        end();
+      } else if (isIpcStreamError(frame)) {
+        end(deserializeError(frame.error));
+      } else if (isIpcOutput(frame)) {
+        end(frame.error ? deserializeError(frame.error) : undefined);
+      }
+    };
 
-      // Pass only messages related to this endpoint
-      if (ipcInput.name !== name) {
+    const start = (): void => {
+      if (started) {
         return;
       }
 
+      started = true;
+
+      // Register event handler
+      this.rpcEm.on(correlationId, listenFrame);
+
+      // Process close case
+      this.pendingActs.set(correlationId, end);
+
+      this.sendInput({
+        correlationId,
+        name,
+        data,
+        streamCredit: finOpts.highWaterMark,
+      });
+    };
+
+    const iterator: AsyncIterableIterator<D> = {
+      [Symbol.asyncIterator]: () => iterator,
+      next: () =>
+        new Promise((resolve, reject) => {
+          if (!ended) {
+            start();
+          }
+
+          waiters.push({ resolve, reject });
+          settle();
+        }),
+      return: () => {
+        if (started && !ended) {
+          this.sendCancel(correlationId, name);
+        }
+
+        buffer.length = 0;
+        end();
+
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+
+    return iterator;
+  }
+
+  /**
+   * Send the requests made with the batch context together, even if the "batch" option is disabled.
+   * Requests made in the same tick (or batching window) are packed into one frame
+   * and the peer replies with one frame. Every request still resolves or rejects on its own.
+   *
+   * @param fn Function making the requests.
+   * @returns The result of the function.
+   */
+  public batch<T>(fn: (b: IpcBatchContext) => T | Promise<T>): Promise<T> {
+    this.assertNotClosed();
+
+    const context: IpcBatchContext = {
+      act: <D = unknown>(
+        name: string,
+        data?: unknown,
+        options?: IpcActOptions,
+      ): Promise<D> => this.actWith<D>(name, data, { ...options, batch: true }),
+    };
+
+    return new Promise((resolve) => resolve(fn(context)));
+  }
+
+  /**
+   * List the RPC endpoints registered by the peer.
+   *
+   * @param options Wait options, used when the peer did not send its RPC names yet.
+   * @returns Names of the RPC endpoints registered by the peer.
+   */
+  public listRemote(options?: IpcWaitForOptions): Promise<string[]> {
+    this.assertNotClosed();
+
+    if (this.remoteRpcNames) {
+      return Promise.resolve(Array.from(this.remoteRpcNames));
+    }
+
+    this.sendRpcNames(true);
+
+    return this.waitForRemoteNames(
+      () => true,
+      'Remote RPC names timeout.',
+      options,
+    ).then((names) => Array.from(names));
+  }
+
+  /**
+   * Wait until the peer registers a RPC endpoint.
+   *
+   * @param name RPC name.
+   * @param options Wait options.
+   * @returns Promise resolved when the RPC endpoint is registered by the peer.
+   */
+  public waitFor(name: string, options?: IpcWaitForOptions): Promise<void> {
+    this.assertNotClosed();
+    assertValidIpcName(name);
+
+    if (this.remoteRpcNames?.has(name)) {
+      return Promise.resolve();
+    }
+
+    return this.waitForRemoteNames(
+      (names) => names.has(name),
+      `Wait timeout. IPC name: ${name}.`,
+      options,
+    ).then(() => undefined);
+  }
+
+  /**
+   * Wait until the RPC names sent by the peer match the predicate.
+   *
+   * @param predicate Names predicate.
+   * @param timeoutMessage Message of the TimeoutError.
+   * @param options Wait options.
+   * @returns The matching RPC names.
+   */
+  private waitForRemoteNames(
+    predicate: (names: Set<string>) => boolean,
+    timeoutMessage: string,
+    options?: IpcWaitForOptions,
+  ): Promise<Set<string>> {
+    const finOpts: Required<IpcWaitForOptions> = {
+      timeout: this.options.actTimeout,
+      ...options,
+    };
+
+    const waitId = uniqueId();
+    let timeoutId: NodeJS.Timeout | undefined;
+
+    return new Promise((resolve, reject) => {
+      const cleanup = (): void => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        this.rpcEm.off(REMOTE_NAMES_EVENT, listenNames);
+        this.pendingActs.delete(waitId);
+      };
+
+      // Event handler
+      const listenNames = (names: Set<string>): void => {
+        if (predicate(names)) {
+          cleanup();
+          resolve(names);
+        }
+      };
+
+      // Register event handler
+      this.rpcEm.on(REMOTE_NAMES_EVENT, listenNames);
+
+      // Process timeout case
+      timeoutId = startTimeout(() => {
+        cleanup();
+        reject(new TimeoutError(timeoutMessage));
+      }, finOpts.timeout);
+
+      // Process close case
+      this.pendingActs.set(waitId, (err: Error) => {
+        cleanup();
+        reject(err);
+      });
+    });
+  }
+
+  /**
+   * Add a RPC endpoint.
+   *
+   * @param name RPC name.
+   * @param handlerFn Handler function.
+   * @param options RPC endpoint options.
+   * @returns Function you can call to remove the RPC endpoint.
+   */
+  public add<I = unknown, O = unknown>(
+    name: string,
+    handlerFn: IpcHandler<I, O>,
+    options?: IpcAddOptions<I, O>,
+  ): RemoveHandler {
+    this.assertNotClosed();
+    assertValidIpcName(name);
+    assertValidIpcHandler(handlerFn);
+
+    if (this.registeredRpcNames.has(name)) {
+      throw new Error(`The RPC named "${name}" already exists.`);
+    }
+
+    const limiter = new ConcurrencyLimiter(
+      options?.concurrency,
+      options?.maxQueue,
+    );
+
+    this.registeredRpcNames.add(name);
+    this.rpcLimiters.set(name, limiter);
+
+    const inputHandler = (ipcInput: IpcInput): void => {
+      const { correlationId } = ipcInput;
+      const controller = createAbortController();
+      this.handlerControllers.set(correlationId, controller);
+
+      const ctx: IpcMiddlewareContext = {
+        kind: 'handle',
+        name,
+        data: this.restoreInputCallbacks(ipcInput),
+        metadata: ipcInput.metadata ?? {},
+        replyMetadata: {},
+        correlationId,
+      };
+
+      const handlerCtx: IpcHandlerContext = {
+        correlationId,
+        name,
+        deadline: ipcInput.deadline,
+        metadata: ctx.metadata,
+        signal: controller.signal,
+        emitToCaller: (event: string, data?: unknown): boolean =>
+          this.sendProgress(ipcInput, controller, event, data),
+      };
+
+      // Whether the handler was called, the request is no longer queued
+      let running = false;
+
       // Convert sync function to async for catching all errors
-      new Promise((resolve) => resolve(handlerFn(ipcInput.data)))
+      const handle = (): Promise<unknown> =>
+        new Promise((resolve) => {
+          // The request was cancelled while waiting in the queue
+          if (controller.signal.aborted) {
+            throw new AbortError();
+          }
+
+          running = true;
+
+          resolve(
+            runMiddleware(this.middlewares, ctx, () => {
+              const data = options?.input
+                ? validateValue(
+                    options.input,
+                    ctx.data,
+                    `Invalid input of RPC "${name}".`,
+                  )
+                : (ctx.data as I);
+
+              return handlerFn(data, handlerCtx);
+            }),
+          );
+        });
+
+      // Wait for a free slot of the endpoint, then for a free slot of the instance
+      const limitedHandle = (): Promise<unknown> =>
+        limiter.run(() => this.handlerLimiter.run(handle));
+
+      const finish = this.metrics.startCall('handle', name);
+      const span = this.tracer?.startSpan(name, {
+        kind: 'server',
+        parent: ipcInput.trace,
+      });
+
+      // Duplicate deliveries of an idempotent request share the result,
+      // unless the request which started the shared run is cancelled in the queue
+      const remembered = (key: string): Promise<unknown> => {
+        let started: Promise<unknown> | undefined;
+        const shared = this.idempotencyCache.remember(key, () => {
+          const run = limitedHandle();
+          started = run;
+          return run;
+        });
+
+        if (shared === started) {
+          controller.signal.addEventListener('abort', () => {
+            if (!running) {
+              this.idempotencyCache.forget(key, shared);
+            }
+          });
+          return shared;
+        }
+
+        // Run again if the shared run was aborted by the cancelled request
+        return shared.catch((err: unknown) => {
+          if (err instanceof AbortError && !controller.signal.aborted) {
+            return remembered(key);
+          }
+
+          throw err;
+        });
+      };
+
+      const { idempotencyKey } = ipcInput;
+      const result =
+        idempotencyKey !== undefined && ipcInput.streamCredit === undefined
+          ? remembered(JSON.stringify([name, idempotencyKey]))
+          : limitedHandle();
+
+      instrument(result, finish, span)
         .then((data: unknown) => {
-          this.sendOutput(ipcInput, { data });
+          // The caller is no longer waiting for the reply
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          if (ipcInput.streamCredit !== undefined) {
+            this.pipeStream(ipcInput, data);
+            return;
+          }
+
+          this.sendOutput(ipcInput, {
+            data: options?.output
+              ? validateValue(
+                  options.output,
+                  data,
+                  `Invalid output of RPC "${name}".`,
+                )
+              : data,
+            metadata: ctx.replyMetadata,
+          });
         })
         .catch((err: unknown) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+
           this.sendOutput(ipcInput, {
             data: undefined,
             error: serializeError(err),
+            metadata: ctx.replyMetadata,
           });
+        })
+        .finally(() => {
+          this.batchedRequests.delete(correlationId);
+
+          // Stream handlers are released when the stream finishes
+          if (!this.streamProducers.has(correlationId)) {
+            this.handlerControllers.delete(correlationId);
+          }
         });
     };
 
-    this.ipcProcess.on('message', messageListener);
+    this.rpcInputHandlers.set(name, inputHandler);
 
-    return () => {
-      this.ipcProcess.off('message', messageListener);
-      delete this.registeredRpcNames[name];
+    const removeRpc = (): void => {
+      // Ignore calls for an already removed endpoint
+      if (this.rpcRemoveHandlers.get(name) !== removeRpc) {
+        return;
+      }
+
+      this.registeredRpcNames.delete(name);
+      this.rpcInputHandlers.delete(name);
+      this.rpcLimiters.delete(name);
+      this.rpcRemoveHandlers.delete(name);
+      this.sendRpcNames();
     };
+
+    this.rpcRemoveHandlers.set(name, removeRpc);
+    this.sendRpcNames();
+
+    return removeRpc;
+  }
+
+  /**
+   * Expose the methods of a service object as RPC endpoints named "<name>.<method>".
+   * The methods are called with the service as "this" and the request data (array) as the arguments.
+   * Only the own methods of the service and the methods of its class are exposed, not the inherited ones.
+   * Methods named with a "_" prefix are not exposed.
+   *
+   * @param name Service name.
+   * @param service Service object (e.g. a class instance).
+   * @returns Function you can call to remove all RPC endpoints of the service.
+   */
+  public expose(name: string, service: object): RemoveHandler {
+    this.assertNotClosed();
+    assertValidIpcName(name);
+
+    const methods = serviceMethods(service);
+
+    if (methods.length === 0) {
+      throw new Error(`The service "${name}" has no methods.`);
+    }
+
+    const existing = methods.find((method) =>
+      this.registeredRpcNames.has(`${name}.${method}`),
+    );
+
+    if (existing) {
+      throw new Error(`The RPC named "${name}.${existing}" already exists.`);
+    }
+
+    const removeHandlers = methods.map((method) => {
+      const fn = (service as Record<string, (...args: unknown[]) => unknown>)[
+        method
+      ];
+
+      return this.add(`${name}.${method}`, (args: unknown) =>
+        fn.apply(service, Array.isArray(args) ? args : [args]),
+      );
+    });
+
+    return () => removeHandlers.forEach((removeRpc) => removeRpc());
+  }
+
+  /**
+   * Returns an object whose methods call the methods of a service exposed by the peer with expose().
+   *
+   * @param name Service name.
+   * @param options Options of the requests.
+   * @returns The service proxy.
+   */
+  public proxy<T extends object>(
+    name: string,
+    options?: IpcActOptions,
+  ): IpcServiceProxy<T> {
+    assertValidIpcName(name);
+
+    return new Proxy({} as IpcServiceProxy<T>, {
+      get: (_, prop): unknown => {
+        // Do not look like a thenable
+        if (typeof prop !== 'string' || prop === 'then') {
+          return undefined;
+        }
+
+        return (...args: unknown[]): Promise<unknown> =>
+          this.act(`${name}.${prop}`, args, options);
+      },
+    });
+  }
+
+  /**
+   * Returns the number of requests being handled and waiting in the queue.
+   *
+   * @param name RPC name. By default the load of all RPC endpoints is returned.
+   * @returns The load.
+   */
+  public getLoad(name?: string): IpcLoad {
+    if (name === undefined) {
+      return {
+        active: this.handlerLimiter.active,
+        queued: Array.from(this.rpcLimiters.values()).reduce(
+          (queued, limiter) => queued + limiter.queued,
+          this.handlerLimiter.queued,
+        ),
+      };
+    }
+
+    const limiter = this.rpcLimiters.get(name);
+
+    if (!limiter) {
+      throw new Error(`The RPC named "${name}" does not exist.`);
+    }
+
+    return { active: limiter.active, queued: limiter.queued };
   }
 
   /**
    * Adds the listener function to the end of the listeners.
+   * The event can be a pattern: "*" matches one segment and "**" one or more segments
+   * of a dot-separated event name (e.g. "job.*"). Pattern listeners receive the event name after the data.
    *
-   * @param event Event name.
+   * @param event Event name or pattern.
    * @param handler Listener function.
+   * @param options Event listener options.
    * @returns Function you can call to remove the event handler.
    */
   public on<T = unknown>(
     event: string,
     handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
   ): RemoveHandler {
-    this.eventsEm.on(event, handler);
+    const listener = options?.schema
+      ? this.validatedEventHandler(event, handler, options.schema, false)
+      : handler;
+
+    this.watchEventPattern(event);
+    this.emitterOf(event).on(event, listener);
+    this.sendSubscriptions();
 
     return () => {
-      this.eventsEm.off(event, handler);
+      this.emitterOf(event).off(event, listener);
+      this.sendSubscriptions();
     };
   }
 
@@ -221,19 +1507,52 @@ export class NodeSimpleIpc {
    *
    * @param event Event name.
    * @param handler Listener function.
+   * @param options Event listener options.
    * @returns Function you can call to remove the event handler.
    */
   public once<T = unknown>(
     event: string,
     handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
   ): RemoveHandler {
-    this.eventsEm.once(event, handler);
+    if (options?.schema) {
+      const listener = this.validatedEventHandler(
+        event,
+        handler,
+        options.schema,
+        true,
+      );
+
+      this.watchEventPattern(event);
+      this.emitterOf(event).on(event, listener);
+      this.sendSubscriptions();
+
+      return () => {
+        this.emitterOf(event).off(event, listener);
+        this.sendSubscriptions();
+      };
+    }
+
+    this.watchEventPattern(event);
+    this.emitterOf(event).once(event, handler);
+    this.sendSubscriptions();
 
     return () => {
-      this.eventsEm.off(event, handler);
+      this.emitterOf(event).off(event, handler);
+      this.sendSubscriptions();
     };
   }
 
+  /**
+   * Adds the listener function for all events.
+   *
+   * @param handler Listener function, called with the event data and name.
+   * @returns Function you can call to remove the event handler.
+   */
+  public onAny<T = unknown>(handler: EventHandler<T>): RemoveHandler {
+    return this.on('**', handler);
+  }
+
   /**
    * Removes the specified listener from the listener array.
    *
@@ -242,68 +1561,1054 @@ export class NodeSimpleIpc {
    * @returns Returns a reference to the NodeSimpleIpc.
    */
   public off<T = unknown>(event: string, handler: EventHandler<T>): void {
-    this.eventsEm.off(event, handler);
+    this.emitterOf(event).off(event, handler);
+    this.sendSubscriptions();
   }
 
   /**
    * Send an event over IPC.
+   * The event is not sent if the peer announced its subscriptions and has no listener for the event.
    *
    * @param event Event name.
    * @param data Event data (optional).
-   * @returns The sending result.
+   * @param options Emit options.
+   * @returns The sending result. False when a middleware dropped the event,
+   * "unsubscribed" when the peer has no listener for the event.
    */
-  public emit(event: string, data?: unknown): boolean {
-    if (!this.ipcProcess.send)
-      throw new Error('The send() method is not defined.');
+  public emit(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): IpcEmitResult {
+    return this.sendEvent(event, data, options, (frame) =>
+      this.sendFrame(frame),
+    );
+  }
 
-    const ipcEvent: IpcEvent = {
-      type: IpcDataType.Event,
-      name: event,
-      data,
+  /**
+   * Send an event over IPC and wait until it is sent.
+   * Messages wait in order while the IPC process signals backpressure.
+   *
+   * @param event Event name.
+   * @param data Event data (optional).
+   * @param options Emit options.
+   * @returns Promise resolved with true when the event was sent, with false or "unsubscribed" if it was not sent (see emit()),
+   * rejected with ChannelClosedError if the channel could not send it.
+   */
+  public emitAsync(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): Promise<IpcEmitResult> {
+    let sent: Promise<void> | undefined;
+
+    const send = (frame: IpcEvent): boolean => {
+      let result = false;
+
+      sent = new Promise((resolve, reject) => {
+        result = this.sendFrame(frame, false, (err) =>
+          err ? reject(err) : resolve(),
+        );
+      });
+
+      return result;
     };
 
-    return this.ipcProcess.send(ipcEvent);
+    return new Promise<IpcEmitResult>((resolve) =>
+      resolve(this.sendEvent(event, data, options, send)),
+    ).then((result) => (sent ? sent.then(() => true) : result));
   }
 
   /**
-   * Send RPC output properties over IPC.
+   * Run the emit middleware and send the event frame if the peer listens to the event.
    *
-   * @param input Input properties.
-   * @param partialOutput Output properties (only data and error).
+   * @param event Event name.
+   * @param data Event data.
+   * @param options Emit options.
+   * @param send Function sending the event frame.
    * @returns The sending result.
    */
-  private sendOutput(
-    input: IpcInput,
-    partialOutput: Pick<IpcOutput, 'data' | 'error'>,
-  ): boolean {
+  private sendEvent(
+    event: string,
+    data: unknown,
+    options: IpcEmitOptions | undefined,
+    send: (frame: IpcEvent) => boolean,
+  ): IpcEmitResult {
+    this.assertNotClosed();
+
     if (!this.ipcProcess.send)
       throw new Error('The send() method is not defined.');
 
-    const output: IpcOutput = {
-      ...partialOutput,
-      correlationId: input.correlationId,
-      name: input.name,
-      type: IpcDataType.Output,
+    const ctx: IpcMiddlewareContext = {
+      kind: 'emit',
+      name: event,
+      data,
+      metadata: {},
+      replyMetadata: {},
     };
 
-    return this.ipcProcess.send(output);
+    const span = this.tracer?.startSpan(event, { kind: 'producer' });
+    this.metrics.countEvent('emitted', event);
+
+    let result: unknown;
+
+    try {
+      result = runMiddleware(this.middlewares, ctx, () => {
+        if (!options?.force && !this.isRemoteSubscribed(ctx.name)) {
+          return 'unsubscribed';
+        }
+
+        return send({
+          type: IpcDataType.Event,
+          name: ctx.name,
+          data: ctx.data,
+          ...(span && { trace: span.context }),
+          ...metadataField(ctx.metadata),
+        });
+      });
+    } catch (err) {
+      span?.setError(err);
+      throw err;
+    } finally {
+      span?.end();
+    }
+
+    if (typeof result === 'boolean' || result === 'unsubscribed') {
+      return result;
+    }
+
+    // Asynchronous middleware results are treated as sent
+    return result !== undefined;
   }
 
   /**
-   * Send RPC input properties over IPC.
+   * Add a middleware to the chain. Middleware run in the order they were added,
+   * around act() and emit() on the outbound side and RPC handlers and event dispatch on the inbound side.
    *
-   * @param partialInput Input properties.
-   * @returns The sending result.
+   * @param middleware Middleware function.
+   * @returns Function you can call to remove the middleware.
    */
-  private sendInput(partialInput: Omit<IpcInput, 'type'>): boolean {
-    if (!this.ipcProcess.send)
-      throw new Error('The send() method is not defined.');
+  public use(middleware: IpcMiddleware): RemoveHandler {
+    assertValidMiddleware(middleware);
 
-    const input: IpcInput = {
-      ...partialInput,
-      type: IpcDataType.Input,
+    this.middlewares.push(middleware);
+
+    return () => {
+      this.middlewares = this.middlewares.filter((mw) => mw !== middleware);
     };
+  }
 
-    return this.ipcProcess.send(input);
+  /**
+   * Call the listeners of the event and of the patterns matching the event name.
+   *
+   * @param event Event name.
+   * @param data Event data.
+   * @returns Whether the event had listeners.
+   */
+  private dispatchEvent(event: string, data: unknown): boolean {
+    // Listeners of exact names receive the data only
+    const count = this.eventsEm.listenerCount(event);
+    let hasListeners = this.eventsEm.emit(event, data);
+    let removed = this.eventsEm.listenerCount(event) < count;
+
+    this.eventPatterns.forEach((matcher, pattern) => {
+      const patternCount = this.eventsEm.listenerCount(pattern);
+
+      if (patternCount === 0) {
+        this.eventPatterns.delete(pattern);
+      } else if (pattern !== event && matcher.test(event)) {
+        hasListeners = this.eventsEm.emit(pattern, data, event) || hasListeners;
+        removed =
+          removed || this.eventsEm.listenerCount(pattern) < patternCount;
+      }
+    });
+
+    // Announce the subscriptions again only when one-time listeners were removed
+    if (removed) {
+      this.sendSubscriptions();
+    }
+
+    return hasListeners;
+  }
+
+  /**
+   * The event emitter of the event listeners: the peer health events have their own emitter.
+   *
+   * @param event Event name or pattern.
+   */
+  private emitterOf(event: string): EventEmitter {
+    return PEER_EVENTS.includes(event) ? this.peerEm : this.eventsEm;
+  }
+
+  /**
+   * Whether the peer listens to the event. True until the peer sends its subscriptions.
+   *
+   * @param event Event name.
+   */
+  private isRemoteSubscribed(event: string): boolean {
+    return (
+      !this.remoteEvents ||
+      this.remoteEvents.has(event) ||
+      this.remoteEventPatterns.some((matcher) => matcher.test(event))
+    );
+  }
+
+  /**
+   * Compile the event pattern for dispatching. Exact event names are ignored.
+   *
+   * @param event Event name or pattern.
+   */
+  private watchEventPattern(event: string): void {
+    if (!this.eventPatterns.has(event) && isEventPattern(event)) {
+      this.eventPatterns.set(event, compileEventPattern(event));
+    }
+  }
+
+  /**
+   * Wrap an event handler to call it only with valid event data.
+   * The wrapper references the handler in the "listener" property (like EventEmitter.once() does),
+   * so off() can remove it by the original handler.
+   *
+   * @param event Event name.
+   * @param handler Listener function.
+   * @param schema Validator of the event data.
+   * @param once Whether to remove the listener after the first valid event.
+   * @returns The wrapped listener.
+   */
+  private validatedEventHandler<T>(
+    event: string,
+    handler: EventHandler<T>,
+    schema: IpcValidator<T>,
+    once: boolean,
+  ): EventHandler {
+    const listener = (data: unknown, name?: string): void => {
+      let validData: T;
+
+      try {
+        validData = validateValue(
+          schema,
+          data,
+          `Invalid data of event "${event}".`,
+        );
+      } catch (err) {
+        // Invalid events are dropped, there is nobody to reply to
+        return;
+      }
+
+      if (once) {
+        this.emitterOf(event).off(event, listener);
+      }
+
+      if (name === undefined) {
+        handler(validData);
+      } else {
+        handler(validData, name);
+      }
+    };
+
+    // Reference the original handler if the handler is a wrapper too
+    return Object.assign(listener, {
+      listener: (handler as { listener?: EventHandler<T> }).listener ?? handler,
+    });
+  }
+
+  /**
+   * Send the values of an iterable returned by a RPC endpoint as stream frames.
+   * The producer sends only as many chunks as the consumer gave credit for.
+   *
+   * @param input Input properties.
+   * @param value Value returned by the RPC endpoint.
+   */
+  private pipeStream(input: IpcInput, value: unknown): void {
+    const iterator = toAsyncIterator(value);
+
+    if (!iterator) {
+      throw new Error(`RPC "${input.name}" did not return an iterable.`);
+    }
+
+    const { correlationId, name } = input;
+    let credit = input.streamCredit ?? 0;
+    let reading = false;
+    let finished = false;
+
+    const finish = (): void => {
+      finished = true;
+      this.streamProducers.delete(correlationId);
+      this.handlerControllers.delete(correlationId);
+    };
+
+    const pump = (): void => {
+      if (finished || reading || credit <= 0) {
+        return;
+      }
+
+      reading = true;
+
+      iterator.next().then(
+        (result) => {
+          reading = false;
+
+          if (finished) {
+            return;
+          }
+
+          if (result.done) {
+            finish();
+            this.sendFrame<IpcStreamEnd>({
+              correlationId,
+              name,
+              type: IpcDataType.StreamEnd,
+            });
+            return;
+          }
+
+          credit--;
+          this.sendFrame<IpcStreamChunk>({
+            correlationId,
+            name,
+            data: result.value,
+            type: IpcDataType.StreamChunk,
+          });
+          pump();
+        },
+        (err: unknown) => {
+          reading = false;
+
+          if (finished) {
+            return;
+          }
+
+          finish();
+          this.sendFrame<IpcStreamError>({
+            correlationId,
+            name,
+            error: serializeError(err),
+            type: IpcDataType.StreamError,
+          });
+        },
+      );
+    };
+
+    this.streamProducers.set(correlationId, {
+      pull: (count: number): void => {
+        credit += count;
+        pump();
+      },
+      cancel: (): void => {
+        if (finished) {
+          return;
+        }
+
+        finish();
+
+        if (iterator.return) {
+          iterator.return().catch(() => undefined);
+        }
+      },
+    });
+
+    pump();
+  }
+
+  /**
+   * Send RPC output properties over IPC.
+   *
+   * @param input Input properties.
+   * @param partialOutput Output properties (only data and error).
+   * @returns The sending result.
+   */
+  private sendOutput(
+    input: IpcInput,
+    partialOutput: Pick<IpcOutput, 'data' | 'error' | 'metadata'>,
+  ): boolean {
+    const { metadata, ...outputFields } = partialOutput;
+    const output: IpcOutput = {
+      ...outputFields,
+      ...metadataField(metadata),
+      correlationId: input.correlationId,
+      name: input.name,
+      type: IpcDataType.Output,
+    };
+
+    // Replies to batched requests are batched too
+    return this.sendFrame(
+      output,
+      this.batchedRequests.delete(input.correlationId),
+    );
+  }
+
+  /**
+   * Call a function passed in the data of a pending request and send its result as the response.
+   *
+   * @param input Callback request, the data holds the handle id and the arguments.
+   */
+  private invokeCallback(input: IpcInput): void {
+    const { id, args } = (this.restoreInputCallbacks(input) ?? {}) as {
+      id?: unknown;
+      args?: unknown;
+    };
+
+    new Promise((resolve) => {
+      const fn = typeof id === 'string' && this.callbackHandles.get(id);
+
+      if (!fn) {
+        throw new Error(`Callback "${id}" is not available.`);
+      }
+
+      resolve(fn(...(Array.isArray(args) ? args : [])));
+    })
+      .then((data: unknown) => this.sendOutput(input, { data }))
+      .catch((err: unknown) =>
+        this.sendOutput(input, { data: undefined, error: serializeError(err) }),
+      );
+  }
+
+  /**
+   * Replace the callback placeholders of the request data with stubs.
+   *
+   * @param input Input properties.
+   * @returns The request data.
+   */
+  private restoreInputCallbacks(input: IpcInput): unknown {
+    if (!Array.isArray(input.callbacks)) {
+      return input.data;
+    }
+
+    return restoreCallbacks(input.data, input.callbacks, (id) =>
+      this.createCallbackStub(id),
+    );
+  }
+
+  /**
+   * Create the stub of a function passed in request data by the peer.
+   *
+   * @param id Callback handle id.
+   * @returns The stub.
+   */
+  private createCallbackStub(id: string): IpcCallbackStub {
+    let disposed = false;
+
+    const stub = (...args: unknown[]): Promise<unknown> => {
+      if (disposed) {
+        return Promise.reject(new Error(`Callback "${id}" was disposed.`));
+      }
+
+      return this.actAttempt(CALLBACK_RPC_NAME, { id, args }, {});
+    };
+
+    const dispose = (): void => {
+      if (disposed) {
+        return;
+      }
+
+      disposed = true;
+
+      if (!this.isClosed && this.ipcProcess.send) {
+        this.sendFrame<IpcCallbackRelease>({
+          id,
+          type: IpcDataType.CallbackRelease,
+        });
+      }
+    };
+
+    return Object.assign(stub, { dispose });
+  }
+
+  /**
+   * Send a progress notification of a request handled by a local RPC endpoint.
+   * Nothing is sent if the caller does not listen to progress or the request is finished.
+   *
+   * @param input Input properties.
+   * @param controller Abort controller of the request.
+   * @param event Progress event name.
+   * @param data Progress data.
+   * @returns Whether the notification was sent.
+   */
+  private sendProgress(
+    input: IpcInput,
+    controller: AbortController,
+    event: string,
+    data: unknown,
+  ): boolean {
+    assertValidIpcName(event);
+
+    if (
+      !input.progress ||
+      this.isClosed ||
+      controller.signal.aborted ||
+      this.handlerControllers.get(input.correlationId) !== controller
+    ) {
+      return false;
+    }
+
+    return this.sendFrame<IpcProgress>({
+      correlationId: input.correlationId,
+      name: input.name,
+      event,
+      data,
+      type: IpcDataType.Progress,
+    });
+  }
+
+  /**
+   * Send RPC input properties over IPC.
+   *
+   * @param partialInput Input properties.
+   * @param batch Whether the request was made with batch().
+   * @returns The sending result.
+   */
+  private sendInput(
+    partialInput: Omit<IpcInput, 'type'>,
+    batch = false,
+  ): boolean {
+    return this.sendFrame<IpcInput>(
+      {
+        ...partialInput,
+        type: IpcDataType.Input,
+      },
+      Boolean(this.options.batch) || batch,
+    );
+  }
+
+  /**
+   * Send the names of the registered RPC endpoints over IPC.
+   * Nothing is sent when the instance is closed or the IPC process can not send messages.
+   *
+   * @param sync Whether the peer should reply with its own names.
+   */
+  private sendRpcNames(sync = false): void {
+    if (this.isClosed || !this.ipcProcess.send) {
+      return;
+    }
+
+    this.sendFrame<IpcRpcNames>({
+      names: this.rpcNames,
+      sync,
+      type: IpcDataType.RpcNames,
+    });
+  }
+
+  /**
+   * Send the event names and patterns with listeners over IPC if they changed since the last time.
+   * Nothing is sent when the instance is closed or the IPC process can not send messages.
+   *
+   * @param force Whether to send them even if they did not change.
+   */
+  private sendSubscriptions(force = false): void {
+    if (this.isClosed || !this.ipcProcess.send) {
+      return;
+    }
+
+    const events = this.eventsEm
+      .eventNames()
+      .filter((event): event is string => typeof event === 'string')
+      .sort();
+    const announced = JSON.stringify(events);
+
+    if (!force && announced === this.announcedEvents) {
+      return;
+    }
+
+    this.announcedEvents = announced;
+    this.sendFrame<IpcSubscriptions>({
+      events,
+      type: IpcDataType.Subscriptions,
+    });
+  }
+
+  /**
+   * Start sending pings if heartbeat is enabled.
+   * The peer is declared down when it misses the configured number of pongs in a row.
+   */
+  private startHeartbeat(): void {
+    const { heartbeat } = this.options;
+
+    if (!heartbeat || this.isClosed || !this.ipcProcess.send) {
+      return;
+    }
+
+    const { interval, maxMissed }: Required<IpcHeartbeatOptions> = {
+      interval: 1e3,
+      maxMissed: 3,
+      ...(heartbeat === true ? undefined : heartbeat),
+    };
+
+    const beat = (): void => {
+      if (this.pingSentAt !== undefined) {
+        this.missedPongs++;
+
+        if (this.missedPongs >= maxMissed) {
+          this.setPeerHealth('down');
+        }
+      }
+
+      this.pingSentAt = Date.now();
+      this.sendFrame<IpcPing>({ id: ++this.pingId, type: IpcDataType.Ping });
+    };
+
+    this.heartbeatTimer = setInterval(beat, interval);
+
+    // Heartbeat alone should not keep the process running
+    this.heartbeatTimer.unref();
+
+    beat();
+  }
+
+  /**
+   * Change the peer health and emit "peer:up" or "peer:down" event on change.
+   * Pending requests are rejected with PeerUnavailableError when the peer goes down.
+   *
+   * @param health New peer health.
+   */
+  private setPeerHealth(health: IpcPeerHealth): void {
+    if (this.peerHealth === health) {
+      return;
+    }
+
+    this.peerHealth = health;
+
+    if (health === 'down') {
+      this.pendingActs.forEach((rejectAct) =>
+        rejectAct(
+          new PeerUnavailableError(
+            `Peer missed ${this.missedPongs} heartbeats.`,
+          ),
+        ),
+      );
+    }
+
+    this.peerEm.emit(`peer:${health}`);
+  }
+
+  /**
+   * Send a cancel frame for a pending request over IPC.
+   *
+   * @param correlationId Request correlation id.
+   * @param name RPC name.
+   * @returns The sending result.
+   */
+  private sendCancel(correlationId: string, name: string): boolean {
+    return this.sendFrame<IpcCancel>({
+      correlationId,
+      name,
+      type: IpcDataType.Cancel,
+    });
+  }
+
+  /**
+   * Send a frame over IPC. The frame data is encoded by the codec,
+   * then binary values of the data are encoded for the channel serialization.
+   * While batched frames are pending, other frames are queued after them to keep the order.
+   *
+   * @param frame Frame to send.
+   * @param batch Whether the frame should be sent in a batch.
+   * @param done Called when the frame was sent, with an error if it could not be sent.
+   * @returns The sending result, always true for batched frames.
+   */
+  private sendFrame<F extends object>(
+    frame: F,
+    batch = false,
+    done?: (err?: Error) => void,
+  ): boolean {
+    if (!this.ipcProcess.send)
+      throw new Error('The send() method is not defined.');
+
+    const encoded =
+      'data' in frame
+        ? {
+            ...frame,
+            data: this.options.codec.encode((frame as { data: unknown }).data),
+          }
+        : frame;
+
+    const binaryEncoded = encodeBinaryFrame(
+      encoded,
+      this.options.serialization,
+    );
+
+    if (
+      batch ||
+      (this.outbox.length > 0 &&
+        !UNBATCHED_TYPES.includes((frame as { type?: unknown }).type))
+    ) {
+      this.queueFrame({ message: binaryEncoded, done });
+      return true;
+    }
+
+    return this.write({ message: binaryEncoded, done });
+  }
+
+  /**
+   * Add a frame to the outbox and schedule the flush.
+   * The outbox is flushed immediately when it is full.
+   *
+   * @param outgoing Encoded frame and its callback.
+   */
+  private queueFrame(outgoing: OutgoingMessage): void {
+    this.outbox.push(outgoing);
+
+    if (this.outbox.length >= this.batchOptions.maxSize) {
+      this.flushOutbox();
+      return;
+    }
+
+    if (this.flushScheduled) {
+      return;
+    }
+
+    this.flushScheduled = true;
+
+    if (this.batchOptions.window > 0) {
+      this.flushTimer = setTimeout(
+        () => this.flushOutbox(),
+        this.batchOptions.window,
+      );
+    } else {
+      // Wait until the pending microtasks (e.g. other requests or replies) are done
+      setImmediate(() => this.flushOutbox());
+    }
+  }
+
+  /**
+   * Send the frames of the outbox, in one batch frame if there are more of them.
+   */
+  private flushOutbox(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    this.flushScheduled = false;
+
+    const entries = this.outbox;
+    this.outbox = [];
+
+    if (this.isClosed || entries.length === 0 || !this.ipcProcess.send) {
+      return;
+    }
+
+    const frames = entries.map((entry) => entry.message);
+    const batch: IpcBatch = { frames, type: IpcDataType.Batch };
+
+    try {
+      this.write({
+        message: frames.length === 1 ? frames[0] : batch,
+        done: (err) => entries.forEach((entry) => entry.done?.(err)),
+      });
+    } catch (err) {
+      // The error was passed to the callbacks of the batched frames
+    }
+  }
+
+  /**
+   * Send a message with the IPC process. Messages larger than the maximum frame size are sent in fragments.
+   *
+   * @param outgoing Message and its callback.
+   * @returns The sending result, always true for fragmented messages.
+   */
+  private write(outgoing: OutgoingMessage): boolean {
+    const { maxFrameSize, serialization } = this.options;
+
+    if (maxFrameSize === Infinity) {
+      return this.writeOrQueue(outgoing);
+    }
+
+    let bytes: Buffer;
+
+    try {
+      bytes = serializeMessage(outgoing.message, serialization);
+    } catch (err) {
+      // The IPC process reports the serialization error
+      return this.writeOrQueue(outgoing);
+    }
+
+    if (bytes.byteLength <= maxFrameSize) {
+      return this.writeOrQueue(outgoing);
+    }
+
+    const id = uniqueId();
+    const chunkSize = fragmentChunkSize(
+      id,
+      bytes.byteLength,
+      maxFrameSize,
+      serialization,
+    );
+
+    if (chunkSize === 0) {
+      const err = new Error(
+        `The maxFrameSize option (${maxFrameSize} bytes) is too small for the fragment envelope.`,
+      );
+
+      this.rejectUnsent(outgoing.message, err);
+      outgoing.done?.(err);
+      return false;
+    }
+
+    this.fragmentedMessages.push({
+      id,
+      outgoing,
+      bytes,
+      chunkSize,
+      count: Math.ceil(bytes.byteLength / chunkSize),
+      next: 0,
+      failed: false,
+    });
+    this.scheduleFragments();
+
+    return true;
+  }
+
+  /**
+   * Schedule the next round of fragments, unless the IPC process signals backpressure.
+   * Other messages are sent between the rounds.
+   */
+  private scheduleFragments(): void {
+    if (
+      this.fragmentsScheduled ||
+      this.writeBlocked ||
+      this.fragmentedMessages.length === 0
+    ) {
+      return;
+    }
+
+    this.fragmentsScheduled = true;
+    setImmediate(() => {
+      this.fragmentsScheduled = false;
+
+      if (this.isClosed) {
+        return;
+      }
+
+      // Send one fragment of every fragmented message
+      this.fragmentedMessages = this.fragmentedMessages.filter((fragmented) => {
+        try {
+          this.sendFragment(fragmented);
+        } catch (err) {
+          // The error was passed to the callback of the fragment
+        }
+
+        return !fragmented.failed && fragmented.next < fragmented.count;
+      });
+
+      this.scheduleFragments();
+    });
+  }
+
+  /**
+   * Send the next fragment of a fragmented message.
+   * The message callback is called after the last fragment or the first failed one.
+   *
+   * @param fragmented Fragmented message.
+   */
+  private sendFragment(fragmented: FragmentedMessage): void {
+    const { id, outgoing, bytes, chunkSize, count } = fragmented;
+    const { serialization } = this.options;
+    const index = fragmented.next++;
+
+    const fragment = encodeBinaryFrame<IpcFragment>(
+      {
+        id,
+        index,
+        count,
+        size: bytes.byteLength,
+        data: bytes.subarray(index * chunkSize, (index + 1) * chunkSize),
+        encoding: serialization,
+        type: IpcDataType.Fragment,
+      },
+      serialization,
+    );
+
+    this.writeOrQueue({
+      message: fragment,
+      done: (err) => {
+        if (fragmented.failed) {
+          return;
+        }
+
+        if (err) {
+          fragmented.failed = true;
+          this.rejectUnsent(outgoing.message, err);
+          outgoing.done?.(err);
+        } else if (index === count - 1) {
+          outgoing.done?.();
+        }
+      },
+    });
+  }
+
+  /**
+   * Reassemble a fragmented message and handle it when all fragments were received.
+   * Malformed fragments and messages are dropped.
+   *
+   * @param fragment Received fragment.
+   */
+  private onFragment(fragment: IpcFragment): void {
+    const message = reassembleFragment(this.assembler, fragment);
+
+    if (message !== undefined) {
+      this.onIpcMessage(message);
+    }
+  }
+
+  /**
+   * Send a message with the IPC process, or queue it while the IPC process signals backpressure.
+   *
+   * @param outgoing Message and its callback.
+   * @returns The sending result, false for queued messages.
+   */
+  private writeOrQueue(outgoing: OutgoingMessage): boolean {
+    if (this.writeBlocked) {
+      this.writeQueue.push(outgoing);
+      return false;
+    }
+
+    return this.writeNow(outgoing);
+  }
+
+  /**
+   * Send a message with the IPC process. When send() returns false, the following messages
+   * are queued until the send callback is called, then the queue is drained in order.
+   * Errors thrown by send() are passed to the message callback and rethrown.
+   *
+   * @param outgoing Message and its callback.
+   * @returns The sending result.
+   */
+  private writeNow({ message, done }: OutgoingMessage): boolean {
+    let called = false;
+    let blocking = false;
+
+    const callback = (err: Error | null): void => {
+      if (called) {
+        return;
+      }
+
+      called = true;
+
+      if (err) {
+        const error = new ChannelClosedError(undefined, err);
+        this.rejectUnsent(message, error);
+        done?.(error);
+      } else {
+        done?.();
+      }
+
+      if (blocking) {
+        this.writeBlocked = false;
+        this.drainWriteQueue();
+      }
+    };
+
+    let sent: boolean;
+
+    try {
+      sent = (this.ipcProcess as Required<IpcProcess>).send(message, callback);
+    } catch (err) {
+      // Errors thrown by send() (e.g. values the serialization does not support) are not channel errors
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      called = true;
+      this.rejectUnsent(message, error);
+      done?.(error);
+      throw err;
+    }
+
+    // The callback of a synchronous IPC process may be called already
+    if (!sent && !called) {
+      blocking = true;
+      this.writeBlocked = true;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send the queued messages until the IPC process signals backpressure again.
+   */
+  private drainWriteQueue(): void {
+    while (!this.writeBlocked && !this.isClosed && this.writeQueue.length > 0) {
+      try {
+        this.writeNow(this.writeQueue.shift() as OutgoingMessage);
+      } catch (err) {
+        // The error was passed to the callback of the message
+      }
+    }
+
+    // Fragments wait while the IPC process signals backpressure
+    this.scheduleFragments();
+  }
+
+  /**
+   * Reject the pending requests of a message which could not be sent.
+   *
+   * @param message Message (a frame or a batch of frames).
+   * @param err Channel error.
+   */
+  private rejectUnsent(message: object, err: Error): void {
+    const frames = isIpcBatch(message) ? message.frames : [message];
+
+    frames.forEach((frame) => {
+      if (isIpcInput(frame)) {
+        this.pendingActs.get(frame.correlationId)?.(err);
+      }
+    });
+  }
+
+  /**
+   * Restore the data of a received frame encoded by sendFrame().
+   *
+   * @param message Received message.
+   * @returns The decoded frame.
+   */
+  private decodeFrame(message: unknown): unknown {
+    const frame = decodeBinaryFrame(message);
+
+    if (typeof frame !== 'object' || frame === null || !('data' in frame)) {
+      return frame;
+    }
+
+    return {
+      ...frame,
+      data: this.options.codec.decode((frame as { data: unknown }).data),
+    };
+  }
+
+  /**
+   * Report a frame which data can not be decoded to the waiting side.
+   *
+   * @param message Received message.
+   * @param err Decoding error.
+   */
+  private onDecodeError(message: unknown, err: unknown): void {
+    const error = serializeError(err);
+
+    if (isIpcInput(message)) {
+      this.sendOutput(message, { data: undefined, error });
+    } else if (isIpcOutput(message)) {
+      this.rpcEm.emit(message.correlationId, {
+        ...message,
+        data: undefined,
+        error,
+      });
+    } else if (isIpcStreamChunk(message)) {
+      const { correlationId, name } = message;
+      const streamError: IpcStreamError = {
+        correlationId,
+        name,
+        error,
+        type: IpcDataType.StreamError,
+      };
+
+      this.sendCancel(correlationId, name);
+      this.rpcEm.emit(correlationId, streamError);
+    }
+  }
+
+  /**
+   * Throw ClosedError if the instance was closed.
+   */
+  private assertNotClosed(): void {
+    if (this.isClosed) {
+      throw new ClosedError();
+    }
   }
 }
@@ -0,0 +1,177 @@
+import { ChildExitedError, ClosedError } from './errors';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import { SupervisedIpc } from './supervised-ipc';
+import { IpcMiddleware, SupervisedIpcOptions } from './types';
+import { FakeIpc } from './utils/fake-proc-ipc';
+
+describe('SupervisedIpc', function () {
+  let supervisor: SupervisedIpc, fakeIpcs: FakeIpc[], children: NodeSimpleIpc[];
+
+  // Spawn a fake child process with RPC endpoints. Only the restarted children reply to "generation".
+  const spawn = (): FakeIpc['master'] => {
+    const fakeIpc = new FakeIpc();
+    const child = new NodeSimpleIpc(fakeIpc.child);
+    child.add('echo', (data: unknown) => data);
+    child.add('hang', () => new Promise(() => undefined));
+    child.add('generation', () =>
+      fakeIpcs.length > 1 ? fakeIpcs.length : new Promise(() => undefined),
+    );
+
+    fakeIpcs.push(fakeIpc);
+    children.push(child);
+
+    return fakeIpc.master;
+  };
+
+  const exit = (code: number | null, signal: string | null = null): void => {
+    const fakeIpc = fakeIpcs[fakeIpcs.length - 1];
+    fakeIpc.child.emit('exit');
+    fakeIpc.master.emit('exit', code, signal);
+  };
+
+  const flush = (): Promise<void> =>
+    new Promise((resolve) => setImmediate(resolve));
+
+  const createSupervisor = (options?: SupervisedIpcOptions): void => {
+    fakeIpcs = [];
+    children = [];
+    supervisor = new SupervisedIpc(spawn, {
+      backoff: { minDelay: 1, jitter: false },
+      ...options,
+    });
+  };
+
+  beforeEach(() => createSupervisor());
+
+  afterEach(() => supervisor.close());
+
+  it('should restart the crashed child and keep the endpoints and listeners.', async () => {
+    const lifecycle: unknown[] = [];
+    const onTick = jest.fn();
+    supervisor.add('parent_name', () => 'parent');
+    supervisor.on('tick', onTick);
+    ['child:exited', 'child:restarting', 'child:spawned'].forEach((event) =>
+      supervisor.on(event, (data) => lifecycle.push([event, data])),
+    );
+
+    exit(1);
+
+    expect(supervisor.ipc).toBeUndefined();
+    await expect(supervisor.act('echo', 'after restart')).resolves.toBe(
+      'after restart',
+    );
+    expect(children).toHaveLength(2);
+    await expect(children[1].act('parent_name')).resolves.toBe('parent');
+
+    children[1].emit('tick', 1);
+    expect(onTick).toBeCalledWith(1);
+
+    expect(lifecycle).toEqual([
+      ['child:exited', { code: 1, signal: null }],
+      ['child:restarting', { attempt: 1, delay: 1 }],
+      ['child:spawned', fakeIpcs[1].master],
+    ]);
+  });
+
+  it('should fail requests in flight with ChildExitedError.', async () => {
+    const pending = supervisor.act('hang');
+    await flush();
+
+    exit(null, 'SIGKILL');
+
+    await expect(pending).rejects.toThrow(ChildExitedError);
+    await expect(pending).rejects.toThrow('code null, signal SIGKILL');
+  });
+
+  it('should report the exit code when the child disconnects before it exits.', async () => {
+    const pending = supervisor.act('hang');
+    await flush();
+
+    // A forked child emits "disconnect" before "exit"
+    fakeIpcs[0].master.emit('disconnect');
+    await flush();
+    exit(3);
+
+    await expect(pending).rejects.toThrow(ChildExitedError);
+    await expect(pending).rejects.toThrow('code 3, signal null');
+  });
+
+  it('should replay requests in flight with the "replay" policy.', async () => {
+    supervisor.close();
+    createSupervisor({ inFlight: 'replay' });
+
+    const pending = supervisor.act('generation');
+    await flush();
+
+    exit(1);
+
+    await expect(pending).resolves.toBe(2);
+    expect(children).toHaveLength(2);
+  });
+
+  it('should give up after the maximum number of restarts.', async () => {
+    supervisor.close();
+    createSupervisor({ maxRestarts: 1 });
+
+    const onGaveUp = jest.fn();
+    supervisor.on('child:gave-up', onGaveUp);
+
+    exit(1);
+    await supervisor.act('echo');
+    exit(1);
+
+    expect(onGaveUp).toBeCalledWith({ restarts: 1 });
+    expect(supervisor.closed).toBe(true);
+    await expect(supervisor.act('echo')).rejects.toThrow(ClosedError);
+  });
+
+  it('should stop supervising when the child exits with code 0.', async () => {
+    const pending = supervisor.act('hang');
+
+    exit(0);
+
+    expect(supervisor.closed).toBe(true);
+    await expect(pending).rejects.toThrow(ClosedError);
+    expect(() => supervisor.emit('event')).toThrow(ClosedError);
+  });
+
+  it('should validate endpoints and middleware while the child is restarting.', () => {
+    exit(1);
+
+    expect(supervisor.ipc).toBeUndefined();
+    expect(() => supervisor.add('', () => undefined)).toThrow(
+      'IPC name must be a not empty string.',
+    );
+    expect(() =>
+      supervisor.use('middleware' as unknown as IpcMiddleware),
+    ).toThrow();
+  });
+
+  it('should stop supervising when the child can not be restarted.', async () => {
+    const spawnError = new Error('spawn failed');
+    const onError = jest.fn();
+    supervisor.close();
+    fakeIpcs = [];
+    children = [];
+    supervisor = new SupervisedIpc(
+      () => {
+        if (fakeIpcs.length > 0) {
+          throw spawnError;
+        }
+
+        return spawn();
+      },
+      { backoff: { minDelay: 1, jitter: false } },
+    );
+    supervisor.on('child:error', onError);
+
+    exit(1);
+    const waiting = supervisor.act('echo');
+
+    await expect(waiting).rejects.toThrow(
+      'The child process could not be restarted.',
+    );
+    expect(onError).toBeCalledWith(spawnError);
+    expect(supervisor.closed).toBe(true);
+  });
+});
@@ -0,0 +1,575 @@
+import { fork } from 'child_process';
+import { EventEmitter } from 'events';
+import { NodeSimpleIpc } from './node-simple-ipc';
+import { ChildExitedError, ClosedError } from './errors';
+import {
+  ForkIpcOptions,
+  IpcActOptions,
+  IpcAddOptions,
+  IpcChildExit,
+  IpcChildGaveUp,
+  IpcChildRestart,
+  IpcEmitOptions,
+  IpcEmitResult,
+  IpcEventOptions,
+  IpcHandler,
+  IpcMiddleware,
+  IpcRetryOptions,
+  EventHandler,
+  RemoveHandler,
+  SupervisedIpcOptions,
+  SupervisedProcess,
+} from './types';
+import {
+  assertValidIpcHandler,
+  assertValidIpcName,
+  assertValidMiddleware,
+  normalizeRetryOptions,
+  retryDelay,
+} from './utils';
+
+// Events emitted by the supervisor itself, they are not sent by the child process.
+const LIFECYCLE_EVENTS = [
+  'child:spawned',
+  'child:exited',
+  'child:restarting',
+  'child:gave-up',
+  'child:error',
+];
+
+// Time in miliseconds to wait for the "exit" event of the child process, a forked child emits "disconnect" first.
+const EXIT_WAIT_TIMEOUT = 1000;
+
+// RPC endpoint registered on every child process.
+interface SupervisedHandler {
+  handlerFn: IpcHandler;
+  options?: IpcAddOptions;
+  remove?: RemoveHandler;
+}
+
+// Event listener registered on every child process.
+interface SupervisedListener {
+  event: string;
+  // The handler passed to on() or once(), used by off().
+  handler: EventHandler;
+  // The function called for the event.
+  callback: EventHandler;
+  options?: IpcEventOptions;
+  remove?: RemoveHandler;
+}
+
+// A request waiting for the child process to be spawned.
+interface SpawnWaiter {
+  resolve: (ipc: NodeSimpleIpc) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Supervisor of a child process which restarts it with backoff when it crashes.
+ * RPC endpoints, event listeners and middleware are registered again on every restarted child.
+ * Emits the lifecycle events "child:spawned", "child:exited", "child:restarting", "child:gave-up"
+ * and "child:error" to the listeners added by on() and once().
+ * The supervisor is closed when the child process exits with code 0 or when it gives up.
+ */
+export class SupervisedIpc {
+  private options: Required<Omit<SupervisedIpcOptions, 'ipcOptions'>> &
+    SupervisedIpcOptions;
+  private backoff: Required<IpcRetryOptions>;
+
+  private isClosed = false;
+
+  // The current child process and its NodeSimpleIpc instance.
+  private child?: SupervisedProcess;
+  private currentIpc?: NodeSimpleIpc;
+
+  // Exit of the current child process, undefined if the supervisor shut down before the exit.
+  private childExit?: Promise<IpcChildExit | undefined>;
+  private resolveChildExit?: (exit?: IpcChildExit) => void;
+
+  // Timestamps of the restarts within the restart window.
+  private restartTimes: number[] = [];
+  private restartTimer?: ReturnType<typeof setTimeout>;
+
+  private handlers: Map<string, SupervisedHandler> = new Map();
+  private listeners: Set<SupervisedListener> = new Set();
+  private middlewares: IpcMiddleware[] = [];
+  private waiters: SpawnWaiter[] = [];
+
+  private lifecycleEm = new EventEmitter();
+
+  /**
+   * Constructor. Spawns the child process immediately.
+   *
+   * @param spawn Function which spawns the child process.
+   * @param options Supervisor options.
+   */
+  constructor(
+    private spawn: () => SupervisedProcess,
+    options?: SupervisedIpcOptions,
+  ) {
+    this.options = {
+      maxRestarts: 5,
+      restartWindow: 60e3,
+      backoff: {},
+      inFlight: 'fail',
+      ...options,
+    };
+    this.backoff = normalizeRetryOptions({
+      minDelay: 100,
+      maxDelay: 10e3,
+      ...this.options.backoff,
+    });
+
+    this.spawnChild();
+  }
+
+  /**
+   * Whether the supervisor was closed.
+   */
+  public get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * NodeSimpleIpc instance of the running child process. Undefined while the child is restarting.
+   */
+  public get ipc(): NodeSimpleIpc | undefined {
+    return this.currentIpc && !this.currentIpc.closed
+      ? this.currentIpc
+      : undefined;
+  }
+
+  /**
+   * The running child process. Undefined while the child is restarting.
+   */
+  public get process(): SupervisedProcess | undefined {
+    return this.ipc && this.child;
+  }
+
+  /**
+   * Start a RPC request. Requests made while the child process is restarting wait for it.
+   * Requests in flight when the child exits fail with ChildExitedError or are replayed, depending on the "inFlight" option.
+   *
+   * @param name RPC name.
+   * @param data Request data (optional).
+   * @param options Request options.
+   * @returns The response.
+   */
+  public act<D = unknown>(
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D> {
+    let childExit: Promise<IpcChildExit | undefined> | undefined;
+
+    return this.whenSpawned()
+      .then((ipc) => {
+        childExit = this.childExit;
+        return ipc.act<D>(name, data, options);
+      })
+      .catch((err: unknown) => {
+        // Other ClosedErrors come from the NodeSimpleIpc instance of an exited child
+        if (!(err instanceof ClosedError) || this.isClosed) {
+          throw err;
+        }
+
+        // The instance closes on "disconnect", the exit code is known later
+        return this.waitForExit(childExit).then((exit) => {
+          if (this.isClosed) {
+            throw err;
+          }
+
+          if (this.options.inFlight === 'replay') {
+            return this.act<D>(name, data, options);
+          }
+
+          throw new ChildExitedError(
+            exit
+              ? `The child process exited (code ${exit.code}, signal ${exit.signal}) before replying.`
+              : undefined,
+          );
+        });
+      });
+  }
+
+  /**
+   * Add a RPC endpoint, registered on every child process.
+   *
+   * @param name RPC name.
+   * @param handlerFn Handler function.
+   * @param options RPC endpoint options.
+   * @returns Function you can call to remove the RPC endpoint.
+   */
+  public add<I = unknown, O = unknown>(
+    name: string,
+    handlerFn: IpcHandler<I, O>,
+    options?: IpcAddOptions<I, O>,
+  ): RemoveHandler {
+    this.assertNotClosed();
+    // Validated now, the endpoint may be registered later on a restarted child
+    assertValidIpcName(name);
+    assertValidIpcHandler(handlerFn);
+
+    if (this.handlers.has(name)) {
+      throw new Error(`The RPC endpoint "${name}" already exists.`);
+    }
+
+    const handler: SupervisedHandler = {
+      handlerFn: handlerFn as IpcHandler,
+      options: options as IpcAddOptions,
+    };
+
+    this.handlers.set(name, handler);
+    this.bindHandler(name, handler);
+
+    return () => {
+      if (this.handlers.get(name) === handler) {
+        this.handlers.delete(name);
+        handler.remove?.();
+      }
+    };
+  }
+
+  /**
+   * Adds the listener function to the end of the listeners, on every child process.
+   * Lifecycle events (e.g. "child:exited") are emitted by the supervisor.
+   *
+   * @param event Event name or pattern.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public on<T = unknown>(
+    event: string,
+    handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
+  ): RemoveHandler {
+    return this.addListener({
+      event,
+      handler: handler as EventHandler,
+      callback: handler as EventHandler,
+      options: options as IpcEventOptions,
+    });
+  }
+
+  /**
+   * Adds a one-time listener function for the event.
+   *
+   * @param event Event name or pattern.
+   * @param handler Listener function.
+   * @param options Event listener options.
+   * @returns Function you can call to remove the event handler.
+   */
+  public once<T = unknown>(
+    event: string,
+    handler: EventHandler<T>,
+    options?: IpcEventOptions<T>,
+  ): RemoveHandler {
+    const remove: RemoveHandler = this.addListener({
+      event,
+      handler: handler as EventHandler,
+      callback: (data, name) => {
+        remove();
+
+        if (name === undefined) {
+          handler(data as T);
+        } else {
+          handler(data as T, name);
+        }
+      },
+      options: options as IpcEventOptions,
+    });
+
+    return remove;
+  }
+
+  /**
+   * Removes the specified listener.
+   *
+   * @param event Event name or pattern.
+   * @param handler Listener function.
+   */
+  public off<T = unknown>(event: string, handler: EventHandler<T>): void {
+    this.listeners.forEach((listener) => {
+      if (listener.event === event && listener.handler === handler) {
+        this.removeListener(listener);
+      }
+    });
+  }
+
+  /**
+   * Send an event to the running child process.
+   *
+   * @param event Event name.
+   * @param data Event data (optional).
+   * @param options Emit options.
+   * @returns The sending result. False while the child process is restarting.
+   */
+  public emit(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): IpcEmitResult {
+    this.assertNotClosed();
+
+    return this.ipc ? this.ipc.emit(event, data, options) : false;
+  }
+
+  /**
+   * Send an event to the running child process and wait until it is sent.
+   * Events emitted while the child process is restarting wait for it.
+   *
+   * @param event Event name.
+   * @param data Event data (optional).
+   * @param options Emit options.
+   * @returns Promise resolved with the sending result when the event was sent.
+   */
+  public emitAsync(
+    event: string,
+    data?: unknown,
+    options?: IpcEmitOptions,
+  ): Promise<IpcEmitResult> {
+    return this.whenSpawned().then((ipc) =>
+      ipc.emitAsync(event, data, options),
+    );
+  }
+
+  /**
+   * Add a middleware to the chain of every child process.
+   *
+   * @param middleware Middleware function.
+   * @returns Function you can call to remove the middleware.
+   */
+  public use(middleware: IpcMiddleware): RemoveHandler {
+    assertValidMiddleware(middleware);
+
+    this.middlewares.push(middleware);
+    const remove = this.ipc?.use(middleware);
+
+    return () => {
+      this.middlewares = this.middlewares.filter((mw) => mw !== middleware);
+      remove?.();
+    };
+  }
+
+  /**
+   * Stop supervising, close the NodeSimpleIpc instance and kill the child process.
+   * Requests waiting for a restart are rejected with ClosedError.
+   */
+  public close(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.shutdown(new ClosedError());
+
+    this.child?.kill?.();
+  }
+
+  private spawnChild(): void {
+    const child = this.spawn();
+    const ipc = new NodeSimpleIpc(child, this.options.ipcOptions);
+
+    this.child = child;
+    this.currentIpc = ipc;
+    this.childExit = new Promise((resolve) => {
+      this.resolveChildExit = resolve;
+    });
+
+    this.middlewares.forEach((middleware) => ipc.use(middleware));
+    this.handlers.forEach((handler, name) => this.bindHandler(name, handler));
+    this.listeners.forEach((listener) => this.bindListener(listener));
+
+    const onExit = (code: unknown, signal?: unknown): void => {
+      child.off('exit', onExit);
+      child.off('error', onError);
+      this.onExit(child, {
+        code: typeof code === 'number' ? code : null,
+        signal: typeof signal === 'string' ? signal : null,
+      });
+    };
+    const onError = (err: unknown): void => {
+      this.lifecycleEm.emit('child:error', err);
+    };
+
+    child.on('exit', onExit);
+    child.on('error', onError);
+
+    this.waiters.splice(0).forEach((waiter) => waiter.resolve(ipc));
+    this.lifecycleEm.emit('child:spawned', child);
+  }
+
+  private onExit(child: SupervisedProcess, exit: IpcChildExit): void {
+    if (child !== this.child) {
+      return;
+    }
+
+    this.resolveChildExit?.(exit);
+    this.currentIpc?.close();
+    this.lifecycleEm.emit('child:exited', exit);
+
+    if (this.isClosed) {
+      return;
+    }
+
+    if (exit.code === 0 && exit.signal === null) {
+      this.shutdown(new ClosedError('The child process exited.'));
+      return;
+    }
+
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter(
+      (time) => now - time < this.options.restartWindow,
+    );
+
+    if (this.restartTimes.length >= this.options.maxRestarts) {
+      const gaveUp: IpcChildGaveUp = { restarts: this.restartTimes.length };
+
+      this.lifecycleEm.emit('child:gave-up', gaveUp);
+      this.shutdown(new ClosedError('The child process crashed too often.'));
+      return;
+    }
+
+    this.restartTimes.push(now);
+
+    const restart: IpcChildRestart = {
+      attempt: this.restartTimes.length,
+      delay: retryDelay(this.restartTimes.length, this.backoff),
+    };
+
+    this.lifecycleEm.emit('child:restarting', restart);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = undefined;
+
+      try {
+        this.spawnChild();
+      } catch (err) {
+        // Nobody would catch the error thrown in the timer
+        this.lifecycleEm.emit('child:error', err);
+        this.shutdown(
+          new ClosedError('The child process could not be restarted.'),
+        );
+      }
+    }, restart.delay);
+  }
+
+  private shutdown(err: ClosedError): void {
+    this.isClosed = true;
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+
+    this.currentIpc?.close();
+    this.resolveChildExit?.();
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(err));
+  }
+
+  /**
+   * Wait for the exit of a child process, at most EXIT_WAIT_TIMEOUT.
+   *
+   * @param childExit Exit of the child process.
+   * @returns The exit, undefined if it is unknown.
+   */
+  private waitForExit(
+    childExit?: Promise<IpcChildExit | undefined>,
+  ): Promise<IpcChildExit | undefined> {
+    if (!childExit) {
+      return Promise.resolve(undefined);
+    }
+
+    let timeoutId: NodeJS.Timeout;
+    const timeout = new Promise<undefined>((resolve) => {
+      timeoutId = setTimeout(() => resolve(undefined), EXIT_WAIT_TIMEOUT);
+    });
+
+    return Promise.race([childExit, timeout]).finally(() =>
+      clearTimeout(timeoutId),
+    );
+  }
+
+  /**
+   * Returns the NodeSimpleIpc instance of the running child process, waiting for the restart if needed.
+   */
+  private whenSpawned(): Promise<NodeSimpleIpc> {
+    if (this.isClosed) {
+      return Promise.reject(new ClosedError());
+    }
+
+    if (this.ipc) {
+      return Promise.resolve(this.ipc);
+    }
+
+    return new Promise((resolve, reject) =>
+      this.waiters.push({ resolve, reject }),
+    );
+  }
+
+  private bindHandler(name: string, handler: SupervisedHandler): void {
+    handler.remove = this.ipc?.add(name, handler.handlerFn, handler.options);
+  }
+
+  private addListener(listener: SupervisedListener): RemoveHandler {
+    this.listeners.add(listener);
+
+    if (LIFECYCLE_EVENTS.includes(listener.event)) {
+      this.lifecycleEm.on(listener.event, listener.callback);
+      listener.remove = (): void => {
+        this.lifecycleEm.off(listener.event, listener.callback);
+      };
+    } else {
+      this.bindListener(listener);
+    }
+
+    return () => this.removeListener(listener);
+  }
+
+  private bindListener(listener: SupervisedListener): void {
+    // Lifecycle listeners are bound once, to the supervisor
+    if (!LIFECYCLE_EVENTS.includes(listener.event)) {
+      listener.remove = this.ipc?.on(
+        listener.event,
+        listener.callback,
+        listener.options,
+      );
+    }
+  }
+
+  private removeListener(listener: SupervisedListener): void {
+    if (this.listeners.delete(listener)) {
+      listener.remove?.();
+    }
+  }
+
+  private assertNotClosed(): void {
+    if (this.isClosed) {
+      throw new ClosedError();
+    }
+  }
+}
+
+/**
+ * Fork a child process supervised by SupervisedIpc.
+ *
+ * @param modulePath Module to run in the child process.
+ * @param options Fork and supervisor options.
+ * @returns The supervisor.
+ */
+export function forkIpc(
+  modulePath: string,
+  options?: ForkIpcOptions,
+): SupervisedIpc {
+  const { args, forkOptions, ...supervisorOptions } = { ...options };
+
+  return new SupervisedIpc(() => fork(modulePath, args, forkOptions), {
+    ...supervisorOptions,
+    // ChildProcess does not expose the serialization of the channel
+    ipcOptions: {
+      ...(forkOptions?.serialization && {
+        serialization: forkOptions.serialization,
+      }),
+      ...supervisorOptions.ipcOptions,
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { encodeFrame, FrameDecoder, SocketFraming } from './framing';
+
+describe('FrameDecoder', function () {
+  const framings: SocketFraming[] = ['newline', 'length-prefixed'];
+
+  framings.forEach((framing) => {
+    it(`should decode "${framing}" frames split across chunks.`, function () {
+      const decoder = new FrameDecoder(framing);
+      const encoded = Buffer.concat([
+        encodeFrame({ a: 'line\nbreak' }, framing),
+        encodeFrame([1, 2, 3], framing),
+      ]);
+
+      expect(decoder.push(encoded.slice(0, 5))).toEqual([]);
+      expect(decoder.push(encoded.slice(5))).toEqual([
+        { a: 'line\nbreak' },
+        [1, 2, 3],
+      ]);
+    });
+  });
+
+  it('should throw an error on a malformed frame.', function () {
+    const decoder = new FrameDecoder('newline');
+
+    expect(() => decoder.push(Buffer.from('{oops\n'))).toThrow();
+  });
+
+  it('should throw an error on a frame longer than the maximum length.', function () {
+    const newline = new FrameDecoder('newline', 10);
+    const lengthPrefixed = new FrameDecoder('length-prefixed', 10);
+
+    expect(newline.push(Buffer.from('"12345678"\n'))).toEqual(['12345678']);
+    expect(newline.push(Buffer.from('"1234'))).toEqual([]);
+    expect(() => newline.push(Buffer.from('56789"'))).toThrow(
+      'The frame length exceeds the maximum of 10 bytes.',
+    );
+
+    // Only the length header was received
+    expect(() =>
+      lengthPrefixed.push(
+        encodeFrame('x'.repeat(20), 'length-prefixed').slice(0, 4),
+      ),
+    ).toThrow('The frame length exceeds the maximum of 10 bytes.');
+  });
+
+  it('should decode many frames of one chunk and a frame of many chunks.', function () {
+    framings.forEach((framing) => {
+      const decoder = new FrameDecoder(framing);
+      const frames = Buffer.concat(
+        [1, 2, 3].map((n) => encodeFrame({ n }, framing)),
+      );
+      const large = encodeFrame('x'.repeat(1000), framing);
+
+      expect(decoder.push(frames)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+      const parts: Buffer[] = [];
+
+      for (let i = 0; i < large.length; i += 100) {
+        parts.push(large.slice(i, i + 100));
+      }
+
+      parts
+        .slice(0, -1)
+        .forEach((part) => expect(decoder.push(part)).toEqual([]));
+      expect(decoder.push(parts[parts.length - 1])).toEqual(['x'.repeat(1000)]);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+export type SocketFraming = 'newline' | 'length-prefixed';
+
+// Size of the length header used by "length-prefixed" framing.
+const LENGTH_HEADER_SIZE = 4;
+
+/** Default maximum length in bytes of a received frame. */
+export const DEFAULT_MAX_FRAME_LENGTH = 64 * 1024 * 1024;
+
+/**
+ * Encode a message as a JSON frame.
+ *
+ * @param data Message to encode.
+ * @param framing Framing to use.
+ * @returns Encoded frame.
+ */
+export function encodeFrame(data: unknown, framing: SocketFraming): Buffer {
+  const json = JSON.stringify(data);
+
+  if (framing === 'newline') {
+    return Buffer.from(json + '\n', 'utf8');
+  }
+
+  const body = Buffer.from(json, 'utf8');
+  const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+  header.writeUInt32BE(body.length, 0);
+
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Decodes JSON frames from a stream of chunks.
+ * The chunks of an incomplete frame are kept apart and concatenated once, when the frame is complete.
+ */
+export class FrameDecoder {
+  // Chunks of the incomplete frame.
+  private chunks: Buffer[] = [];
+
+  // Total length of the chunks.
+  private length = 0;
+
+  /**
+   * Constructor.
+   *
+   * @param framing Framing to use.
+   * @param maxFrameLength Maximum length in bytes of a frame (without the length header).
+   */
+  constructor(
+    private framing: SocketFraming,
+    private maxFrameLength = DEFAULT_MAX_FRAME_LENGTH,
+  ) {}
+
+  /**
+   * Append a chunk and decode all complete frames.
+   * Throws an error on malformed frames and frames longer than the maximum length.
+   *
+   * @param chunk Received chunk.
+   * @returns Decoded messages.
+   */
+  public push(chunk: Buffer): unknown[] {
+    return this.framing === 'newline'
+      ? this.decodeNewline(chunk)
+      : this.decodeLengthPrefixed(chunk);
+  }
+
+  private decodeNewline(chunk: Buffer): unknown[] {
+    const messages: unknown[] = [];
+    let start = 0;
+    let end: number;
+
+    // The kept chunks have no newline, so only the new chunk is searched
+    while ((end = chunk.indexOf(0x0a, start)) !== -1) {
+      this.append(chunk.slice(start, end));
+
+      const line = this.take(this.length).toString('utf8');
+      start = end + 1;
+
+      if (line.length > 0) {
+        messages.push(JSON.parse(line));
+      }
+    }
+
+    if (start < chunk.length) {
+      this.append(chunk.slice(start));
+    }
+
+    return messages;
+  }
+
+  private decodeLengthPrefixed(chunk: Buffer): unknown[] {
+    const messages: unknown[] = [];
+
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+
+    while (this.length >= LENGTH_HEADER_SIZE) {
+      if (this.chunks[0].length < LENGTH_HEADER_SIZE) {
+        this.chunks = [Buffer.concat(this.chunks, this.length)];
+      }
+
+      const length = this.chunks[0].readUInt32BE(0);
+
+      this.assertFrameLength(length);
+
+      if (this.length < LENGTH_HEADER_SIZE + length) {
+        break;
+      }
+
+      const frame = this.take(LENGTH_HEADER_SIZE + length);
+      messages.push(
+        JSON.parse(frame.slice(LENGTH_HEADER_SIZE).toString('utf8')),
+      );
+    }
+
+    return messages;
+  }
+
+  // Keep a part of a frame, the frame must not exceed the maximum length.
+  private append(part: Buffer): void {
+    this.assertFrameLength(this.length + part.length);
+    this.chunks.push(part);
+    this.length += part.length;
+  }
+
+  // Remove the first bytes of the kept chunks and return them.
+  private take(length: number): Buffer {
+    const buffer =
+      this.chunks.length === 1
+        ? this.chunks[0]
+        : Buffer.concat(this.chunks, this.length);
+    const rest = buffer.slice(length);
+
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.length = rest.length;
+
+    return buffer.slice(0, length);
+  }
+
+  private assertFrameLength(length: number): void {
+    if (length > this.maxFrameLength) {
+      throw new Error(
+        `The frame length exceeds the maximum of ${this.maxFrameLength} bytes.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './framing';
+export * from './message-port-transport';
+export * from './socket-transport';
+export * from './socket-server';
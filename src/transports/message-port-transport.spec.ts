@@ -0,0 +1,30 @@
+import { MessageChannel } from 'worker_threads';
+import { NodeSimpleIpc } from '../node-simple-ipc';
+import { MessagePortTransport } from './message-port-transport';
+
+describe('MessagePortTransport', function () {
+  it('should work with act() and emit() over a MessageChannel.', async function () {
+    const { port1, port2 } = new MessageChannel();
+    const masterIpc = new NodeSimpleIpc(new MessagePortTransport(port1));
+    const childIpc = new NodeSimpleIpc(new MessagePortTransport(port2));
+    const received = new Promise((resolve) => masterIpc.once('tick', resolve));
+
+    childIpc.add('math_add', ([a, b]: [number, number]) => a + b);
+    childIpc.emit('tick', 1);
+
+    await expect(masterIpc.act('math_add', [1, 2])).resolves.toEqual(3);
+    await expect(received).resolves.toEqual(1);
+
+    port1.close();
+  });
+
+  it('should close NodeSimpleIpc when the port is closed.', async function () {
+    const { port1, port2 } = new MessageChannel();
+    const ipc = new NodeSimpleIpc(new MessagePortTransport(port1));
+
+    port2.close();
+    await new Promise((resolve) => port1.once('close', resolve));
+
+    expect(ipc.closed).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import type { MessagePort, Worker } from 'worker_threads';
+import { IpcProcess, IpcSendCallback } from '../types';
+
+/**
+ * IPC process adapter for worker_threads (MessagePort, parentPort or Worker).
+ * Emits "disconnect" when the port is closed or the worker exits.
+ */
+export class MessagePortTransport extends EventEmitter implements IpcProcess {
+  /** Messages are copied with the structured clone algorithm. */
+  public readonly serialization = 'advanced';
+
+  private port: MessagePort | Worker;
+  private messageListener: (data: unknown) => void;
+  private closeListener: () => void;
+
+  /**
+   * Constructor.
+   *
+   * @param port MessagePort, parentPort or Worker.
+   */
+  constructor(port: MessagePort | Worker) {
+    super();
+    this.port = port;
+    this.messageListener = (data: unknown): void => {
+      this.emit('message', data);
+    };
+    this.closeListener = (): void => this.close();
+
+    this.port.on('message', this.messageListener);
+    this.port.on('close', this.closeListener);
+    this.port.on('exit', this.closeListener);
+  }
+
+  /**
+   * Send a message to the port.
+   *
+   * @param data Message.
+   * @param callback Called when the message was posted, with an error if it can not be cloned.
+   * @returns The sending result.
+   */
+  public send(data: object, callback?: IpcSendCallback): boolean {
+    try {
+      this.port.postMessage(data);
+    } catch (err) {
+      if (!callback) {
+        throw err;
+      }
+
+      callback(err as Error);
+      return false;
+    }
+
+    callback?.(null);
+    return true;
+  }
+
+  /**
+   * Detach from the port and emit "disconnect". The port itself is not closed.
+   */
+  public close(): void {
+    this.port.off('message', this.messageListener);
+    this.port.off('close', this.closeListener);
+    this.port.off('exit', this.closeListener);
+    this.emit('disconnect');
+  }
+}
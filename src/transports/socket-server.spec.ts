@@ -0,0 +1,42 @@
+import { connect } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NodeSimpleIpc } from '../node-simple-ipc';
+import { uniqueId } from '../utils';
+import { IpcSocketServer } from './socket-server';
+import { SocketTransport } from './socket-transport';
+
+describe('IpcSocketServer', function () {
+  it('should accept many clients and broadcast events to them.', async function () {
+    const path = join(tmpdir(), `nsi-${uniqueId()}.sock`);
+    const server = new IpcSocketServer();
+
+    server.on('connection', (ipc: NodeSimpleIpc) => {
+      ipc.add('whoami', (name: string) => `hello ${name}`);
+    });
+    await server.listen(path);
+
+    const clients = ['a', 'b', 'c'].map(
+      () => new NodeSimpleIpc(new SocketTransport(connect(path))),
+    );
+
+    // Subscribe before the requests, so the server knows the subscriptions when the replies arrive
+    const received = Promise.all(
+      clients.map((ipc) => new Promise((resolve) => ipc.once('news', resolve))),
+    );
+
+    await expect(
+      Promise.all(clients.map((ipc, i) => ipc.act('whoami', String(i)))),
+    ).resolves.toEqual(['hello 0', 'hello 1', 'hello 2']);
+    expect(server.clients).toHaveLength(3);
+
+    server.emitAll('news', 42);
+
+    await expect(received).resolves.toEqual([42, 42, 42]);
+
+    await server.close();
+
+    expect(server.clients).toHaveLength(0);
+    expect(clients.every((ipc) => ipc.closed)).toBe(true);
+  });
+});
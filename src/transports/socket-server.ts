@@ -0,0 +1,102 @@
+import { EventEmitter } from 'events';
+import { createServer, Server, Socket } from 'net';
+import { NodeSimpleIpc } from '../node-simple-ipc';
+import { NodeSimpleIpcOptions } from '../types';
+import { SocketTransport, SocketTransportOptions } from './socket-transport';
+
+export interface IpcSocketServerOptions extends SocketTransportOptions {
+  /** Options of the NodeSimpleIpc instance created for every client. */
+  ipcOptions?: NodeSimpleIpcOptions;
+}
+
+/**
+ * Socket server which creates a NodeSimpleIpc instance for every client.
+ * Emits "connection" with the client NodeSimpleIpc instance and "disconnect" when the client is gone.
+ */
+export class IpcSocketServer extends EventEmitter {
+  private server: Server;
+  private options: IpcSocketServerOptions;
+
+  // Connected clients and their transports.
+  private clientMap: Map<NodeSimpleIpc, SocketTransport> = new Map();
+
+  /**
+   * Constructor.
+   *
+   * @param options Server options.
+   */
+  constructor(options?: IpcSocketServerOptions) {
+    super();
+    this.options = { ...options };
+    this.server = createServer((socket) => this.onConnection(socket));
+  }
+
+  /**
+   * Connected clients.
+   */
+  public get clients(): NodeSimpleIpc[] {
+    return Array.from(this.clientMap.keys());
+  }
+
+  private onConnection(socket: Socket): void {
+    const { ipcOptions, ...transportOptions } = this.options;
+    const transport = new SocketTransport(socket, transportOptions);
+    const ipc = new NodeSimpleIpc(transport, ipcOptions);
+
+    this.clientMap.set(ipc, transport);
+
+    transport.on('disconnect', () => {
+      this.clientMap.delete(ipc);
+      this.emit('disconnect', ipc);
+    });
+
+    this.emit('connection', ipc);
+  }
+
+  /**
+   * Start listening.
+   *
+   * @param path Unix domain socket path, Windows named pipe or TCP port.
+   * @returns Promise resolved when the server is listening.
+   */
+  public listen(path: string | number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(path, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Send an event to all connected clients.
+   *
+   * @param event Event name.
+   * @param data Event data (optional).
+   */
+  public emitAll(event: string, data?: unknown): void {
+    this.clientMap.forEach((_, ipc) => ipc.emit(event, data));
+  }
+
+  /**
+   * Stop accepting new clients and disconnect the connected ones.
+   *
+   * @returns Promise resolved when the server and all clients are closed.
+   */
+  public close(): Promise<void> {
+    const disconnected = Array.from(this.clientMap.values()).map(
+      (transport) =>
+        new Promise<void>((resolve) => {
+          transport.once('disconnect', () => resolve());
+          transport.close();
+        }),
+    );
+
+    const closed = new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+    });
+
+    return Promise.all([closed, ...disconnected]).then(() => undefined);
+  }
+}
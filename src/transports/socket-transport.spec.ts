@@ -0,0 +1,73 @@
+import { createServer, connect, Server, Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NodeSimpleIpc } from '../node-simple-ipc';
+import { uniqueId } from '../utils';
+import { SocketTransport } from './socket-transport';
+
+describe('SocketTransport', function () {
+  let server: Server, serverSocket: Socket, clientSocket: Socket;
+
+  beforeEach(async () => {
+    const path = join(tmpdir(), `nsi-${uniqueId()}.sock`);
+    const accepted = new Promise<Socket>((resolve) => {
+      server = createServer(resolve);
+    });
+
+    await new Promise<void>((resolve) => server.listen(path, resolve));
+    clientSocket = connect(path);
+    serverSocket = await accepted;
+  });
+
+  afterEach(async () => {
+    clientSocket.destroy();
+    serverSocket.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  (['newline', 'length-prefixed'] as const).forEach((framing) => {
+    it(`should work with act() and emit() using "${framing}" framing.`, async function () {
+      const masterIpc = new NodeSimpleIpc(
+        new SocketTransport(serverSocket, { framing }),
+      );
+      const childIpc = new NodeSimpleIpc(
+        new SocketTransport(clientSocket, { framing }),
+      );
+      const received = new Promise((resolve) => childIpc.once('tick', resolve));
+
+      childIpc.add('echo', (input: string) => input);
+      masterIpc.emit('tick', 'tock');
+
+      await expect(masterIpc.act('echo', 'hello\nworld')).resolves.toEqual(
+        'hello\nworld',
+      );
+      await expect(received).resolves.toEqual('tock');
+    });
+  });
+
+  it('should close NodeSimpleIpc when the socket is closed.', async function () {
+    const transport = new SocketTransport(serverSocket);
+    const ipc = new NodeSimpleIpc(transport);
+    const disconnected = new Promise((resolve) =>
+      transport.once('disconnect', resolve),
+    );
+
+    clientSocket.end();
+    await disconnected;
+
+    expect(ipc.closed).toBe(true);
+    expect(transport.send({})).toBe(false);
+  });
+
+  it('should destroy the socket when a frame exceeds the maximum length.', async function () {
+    const transport = new SocketTransport(serverSocket, { maxFrameLength: 10 });
+    const disconnected = new Promise((resolve) =>
+      transport.once('disconnect', resolve),
+    );
+
+    clientSocket.write('x'.repeat(11));
+    await disconnected;
+
+    expect(serverSocket.destroyed).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import type { Socket } from 'net';
+import { IpcProcess, IpcSendCallback } from '../types';
+import {
+  DEFAULT_MAX_FRAME_LENGTH,
+  encodeFrame,
+  FrameDecoder,
+  SocketFraming,
+} from './framing';
+
+export interface SocketTransportOptions {
+  /** Message framing. By default "newline" is used. */
+  framing?: SocketFraming;
+  /** Maximum length in bytes of a received frame. The socket is destroyed when a frame exceeds it. By default 64 MiB. */
+  maxFrameLength?: number;
+}
+
+/**
+ * IPC process adapter for net.Socket (TCP, Unix domain sockets and Windows named pipes).
+ * Messages are sent as JSON frames. Emits "disconnect" when the socket is closed.
+ */
+export class SocketTransport extends EventEmitter implements IpcProcess {
+  private socket: Socket;
+  private options: Required<SocketTransportOptions>;
+  private decoder: FrameDecoder;
+
+  /**
+   * Constructor.
+   *
+   * @param socket Connected (or connecting) socket.
+   * @param options Socket transport options.
+   */
+  constructor(socket: Socket, options?: SocketTransportOptions) {
+    super();
+    this.socket = socket;
+    this.options = {
+      framing: 'newline',
+      maxFrameLength: DEFAULT_MAX_FRAME_LENGTH,
+      ...options,
+    };
+    this.decoder = new FrameDecoder(
+      this.options.framing,
+      this.options.maxFrameLength,
+    );
+
+    this.socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    this.socket.on('close', () => this.emit('disconnect'));
+    this.socket.on('error', (err: Error) => {
+      // The "close" event follows, so the error is forwarded only when someone listens
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', err);
+      }
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    let messages: unknown[];
+
+    try {
+      messages = this.decoder.push(chunk);
+    } catch (err) {
+      // The stream can not be resynchronized after a malformed or too long frame
+      this.socket.destroy();
+      return;
+    }
+
+    messages.forEach((message) => this.emit('message', message));
+  }
+
+  /**
+   * Send a message over the socket.
+   *
+   * @param data Message.
+   * @param callback Called when the message was written, with an error if the socket is closed.
+   * @returns The sending result, false when the socket buffer is full or the socket is closed.
+   */
+  public send(data: object, callback?: IpcSendCallback): boolean {
+    if (this.socket.destroyed || !this.socket.writable) {
+      if (callback) {
+        process.nextTick(callback, new Error('The socket is closed.'));
+      }
+      return false;
+    }
+
+    return this.socket.write(
+      encodeFrame(data, this.options.framing),
+      (err?: Error) => callback?.(err ?? null),
+    );
+  }
+
+  /**
+   * Close the socket.
+   */
+  public close(): void {
+    this.socket.end();
+  }
+}
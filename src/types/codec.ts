@@ -0,0 +1,21 @@
+/**
+ * Codec of the frame data. Both sides of the channel must use the same codec.
+ */
+export interface IpcCodec {
+  /** Convert the data into a value supported by the channel serialization. */
+  encode(data: unknown): unknown;
+  /** Restore the data converted by encode(). */
+  decode(data: unknown): unknown;
+}
+
+/**
+ * Handler of a custom type for the extended JSON codec.
+ */
+export interface IpcTypeHandler<T = unknown> {
+  /** Whether the value is handled by this handler. */
+  test(value: unknown): boolean;
+  /** Convert the value into a serializable value. Values nested inside the result are encoded as well. */
+  encode(value: T): unknown;
+  /** Restore the value from the result of encode(). */
+  decode(data: unknown): T;
+}
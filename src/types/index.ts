@@ -1,2 +1,7 @@
 export * from './io-types';
 export * from './node-simple-ipc';
+export * from './ipc-hub';
+export * from './ipc-client';
+export * from './codec';
+export * from './instrumentation';
+export * from './supervised-ipc';
@@ -0,0 +1,69 @@
+/** Side of an RPC call: the caller (act) or the RPC endpoint (add). */
+export type IpcRpcSide = 'act' | 'handle';
+
+export interface IpcLatencyHistogram {
+  /** Upper bounds of the buckets in miliseconds. */
+  buckets: number[];
+  /** Number of calls per bucket (not cumulative). The last item counts calls above the last bound. */
+  counts: number[];
+  /** Sum of the latencies in miliseconds. */
+  sum: number;
+  /** Number of finished calls. */
+  count: number;
+}
+
+export interface IpcRpcMetrics {
+  /** Number of calls. */
+  calls: number;
+  /** Number of failed calls by error name. */
+  errors: Record<string, number>;
+  /** Number of calls failed with TimeoutError. */
+  timeouts: number;
+  /** Number of calls in progress. */
+  inFlight: number;
+  latency: IpcLatencyHistogram;
+}
+
+export interface IpcMetrics {
+  /** Metrics of the requests made by act() by RPC name. */
+  act: Record<string, IpcRpcMetrics>;
+  /** Metrics of the requests handled by the RPC endpoints by RPC name. */
+  handle: Record<string, IpcRpcMetrics>;
+  events: {
+    /** Number of emitted events by event name. */
+    emitted: Record<string, number>;
+    /** Number of received events by event name. */
+    received: Record<string, number>;
+  };
+}
+
+/** Trace context sent in frames to link spans across processes. */
+export interface IpcTraceContext {
+  traceId: string;
+  spanId: string;
+}
+
+export type IpcSpanKind = 'client' | 'server' | 'producer' | 'consumer';
+
+export interface IpcSpanOptions {
+  kind: IpcSpanKind;
+  /** Trace context of the remote parent span. */
+  parent?: IpcTraceContext;
+  attributes?: Record<string, unknown>;
+}
+
+export interface IpcSpan {
+  /** Trace context sent to the peer. */
+  context: IpcTraceContext;
+  /** Record the error of a failed operation. */
+  setError(err: unknown): void;
+  end(): void;
+}
+
+/**
+ * Tracer adapter (e.g. for OpenTelemetry). Spans are started for act() (client), RPC endpoints (server),
+ * emit() (producer) and received events (consumer).
+ */
+export interface IpcTracer {
+  startSpan(name: string, options: IpcSpanOptions): IpcSpan;
+}
@@ -1,13 +1,50 @@
+import { IpcTraceContext } from './instrumentation';
+import { IpcSerialization } from './node-simple-ipc';
+
 export const enum IpcDataType {
   Input = 'I',
   Output = 'O',
   Event = 'E',
+  Cancel = 'K',
+  Progress = 'P',
+  RpcNames = 'N',
+  Subscriptions = 'U',
+  Ping = 'HP',
+  Pong = 'HO',
+  Batch = 'B',
+  CallbackRelease = 'CR',
+  Fragment = 'F',
+  StreamChunk = 'SC',
+  StreamEnd = 'SE',
+  StreamError = 'SX',
+  StreamPull = 'SP',
 }
 
+/** Frame metadata (headers), set and read by middleware. */
+export type IpcMetadata = Record<string, unknown>;
+
+/** Binary value extracted from frame data: base64 string for JSON channels, bytes otherwise. */
+export type IpcBinary = string | Uint8Array;
+
 export interface IpcInput<D = unknown> {
   correlationId: string;
   name: string;
   data: D;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
+  /** Initial number of chunks the producer may send. Set only for stream requests. */
+  streamCredit?: number;
+  /** Key shared by all attempts of a retried request. */
+  idempotencyKey?: string;
+  /** Time (Unix epoch in miliseconds) after which the caller stops waiting for the response. */
+  deadline?: number;
+  /** Whether the caller listens to progress notifications. */
+  progress?: boolean;
+  /** Ids of the callback handles referenced by placeholders in the data. */
+  callbacks?: string[];
+  metadata?: IpcMetadata;
+  /** Trace context of the caller span. */
+  trace?: IpcTraceContext;
   type: IpcDataType.Input;
 }
 
@@ -15,18 +52,139 @@ export interface SerializedError {
   message: string;
   name?: string;
   stack?: string;
+  /** Error code (e.g. "ENOENT"). */
+  code?: string | number;
+  /** Serialized error cause. */
+  cause?: SerializedError;
+  /** Serialized errors of an AggregateError. */
+  errors?: SerializedError[];
+  /** Validation details of a ValidationError. */
+  details?: unknown;
+  /** Other enumerable own properties of the error. */
+  [key: string]: unknown;
 }
 
 export interface IpcOutput<D = unknown> {
   correlationId: string;
   name: string;
   data: D;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
   error?: SerializedError;
+  metadata?: IpcMetadata;
   type: IpcDataType.Output;
 }
 
 export interface IpcEvent<D = unknown> {
   name: string;
   data?: D;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
+  metadata?: IpcMetadata;
+  /** Trace context of the producer span. */
+  trace?: IpcTraceContext;
   type: IpcDataType.Event;
 }
+
+export interface IpcCancel {
+  correlationId: string;
+  name: string;
+  type: IpcDataType.Cancel;
+}
+
+export interface IpcProgress<D = unknown> {
+  correlationId: string;
+  name: string;
+  /** Name of the progress event. */
+  event: string;
+  data?: D;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
+  type: IpcDataType.Progress;
+}
+
+export interface IpcCallbackRelease {
+  /** Id of the released callback handle. */
+  id: string;
+  type: IpcDataType.CallbackRelease;
+}
+
+export interface IpcRpcNames {
+  /** Names of the RPC endpoints registered by the sender. */
+  names: string[];
+  /** Whether the receiver should reply with its own names. */
+  sync?: boolean;
+  type: IpcDataType.RpcNames;
+}
+
+export interface IpcSubscriptions {
+  /** Event names and patterns the sender listens to. */
+  events: string[];
+  type: IpcDataType.Subscriptions;
+}
+
+export interface IpcFragment {
+  /** Id of the fragmented message. */
+  id: string;
+  /** Index of the fragment, starting from 0. */
+  index: number;
+  /** Number of fragments of the message. */
+  count: number;
+  /** Size of the serialized message in bytes. */
+  size: number;
+  /** Bytes of the serialized message. */
+  data: Uint8Array;
+  /** Serialization of the message bytes, used by the sender. */
+  encoding: IpcSerialization;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
+  type: IpcDataType.Fragment;
+}
+
+export interface IpcStreamChunk<D = unknown> {
+  correlationId: string;
+  name: string;
+  data: D;
+  /** Binary values referenced by placeholders in the data. */
+  binaries?: IpcBinary[];
+  type: IpcDataType.StreamChunk;
+}
+
+export interface IpcStreamEnd {
+  correlationId: string;
+  name: string;
+  type: IpcDataType.StreamEnd;
+}
+
+export interface IpcStreamError {
+  correlationId: string;
+  name: string;
+  error: SerializedError;
+  type: IpcDataType.StreamError;
+}
+
+export interface IpcStreamPull {
+  correlationId: string;
+  name: string;
+  /** Number of additional chunks the producer may send. */
+  count: number;
+  type: IpcDataType.StreamPull;
+}
+
+export interface IpcPing {
+  /** Sequence number, returned by the pong. */
+  id: number;
+  type: IpcDataType.Ping;
+}
+
+export interface IpcPong {
+  /** Sequence number of the answered ping. */
+  id: number;
+  type: IpcDataType.Pong;
+}
+
+export interface IpcBatch {
+  /** Frames sent together, in the sending order. */
+  frames: object[];
+  type: IpcDataType.Batch;
+}
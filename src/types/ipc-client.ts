@@ -0,0 +1,98 @@
+import {
+  EventHandler,
+  IpcActOptions,
+  IpcAddOptions,
+  IpcEventOptions,
+  IpcHandler,
+} from './node-simple-ipc';
+
+/**
+ * Contract of the RPC endpoints and events shared by both IPC sides.
+ *
+ * @example
+ * type Contract = {
+ *   rpc: { getUser: (id: string) => User };
+ *   events: { tick: number };
+ * };
+ */
+export interface IpcContract {
+  rpc?: object;
+  events?: object;
+}
+
+type RpcMap<C> = C extends { rpc: infer R } ? R : never;
+
+type EventMap<C> = C extends { events: infer E } ? E : never;
+
+type RpcFn<C, N> = N extends keyof RpcMap<C>
+  ? RpcMap<C>[N] extends (...args: infer A) => infer R
+    ? (...args: A) => R
+    : never
+  : never;
+
+/** RPC names of the contract. */
+export type IpcRpcName<C> = keyof RpcMap<C> & string;
+
+/** Request data type of a contract RPC. */
+export type IpcRpcInput<C, N extends IpcRpcName<C>> = Parameters<
+  RpcFn<C, N>
+>[0];
+
+/** Response data type of a contract RPC. */
+export type IpcRpcOutput<C, N extends IpcRpcName<C>> = Awaited<
+  ReturnType<RpcFn<C, N>>
+>;
+
+/** act() arguments of a contract RPC. The data is optional for RPCs without parameters. */
+export type IpcRpcArgs<C, N extends IpcRpcName<C>> = Parameters<
+  RpcFn<C, N>
+> extends []
+  ? [data?: undefined, options?: IpcActOptions]
+  : [data: IpcRpcInput<C, N>, options?: IpcActOptions];
+
+/** Handler of a contract RPC. */
+export type IpcRpcHandler<C, N extends IpcRpcName<C>> = IpcHandler<
+  IpcRpcInput<C, N>,
+  IpcRpcOutput<C, N> | Promise<IpcRpcOutput<C, N>>
+>;
+
+/** add() options of a contract RPC. */
+export type IpcRpcAddOptions<C, N extends IpcRpcName<C>> = IpcAddOptions<
+  IpcRpcInput<C, N>,
+  IpcRpcOutput<C, N>
+>;
+
+/** Event names of the contract. */
+export type IpcEventName<C> = keyof EventMap<C> & string;
+
+/** Data type of a contract event. */
+export type IpcEventData<
+  C,
+  E extends IpcEventName<C>,
+> = E extends keyof EventMap<C> ? EventMap<C>[E] : never;
+
+/** emit() arguments of a contract event. The data is optional for events of type undefined or void. */
+export type IpcEventArgs<C, E extends IpcEventName<C>> = IpcEventData<
+  C,
+  E
+> extends undefined | void
+  ? [data?: IpcEventData<C, E>]
+  : [data: IpcEventData<C, E>];
+
+/** Typed event handler of a contract event. */
+export type IpcEventHandler<C, E extends IpcEventName<C>> = EventHandler<
+  IpcEventData<C, E>
+>;
+
+/** Typed event listener options of a contract event. */
+export type IpcContractEventOptions<
+  C,
+  E extends IpcEventName<C>,
+> = IpcEventOptions<IpcEventData<C, E>>;
+
+/** Object with a method for every contract RPC, calling act() under the hood. */
+export type IpcRpcProxy<C> = {
+  [N in IpcRpcName<C>]: (
+    ...args: IpcRpcArgs<C, N>
+  ) => Promise<IpcRpcOutput<C, N>>;
+};
@@ -0,0 +1,10 @@
+import { NodeSimpleIpcOptions } from './node-simple-ipc';
+
+export type IpcHubBalance = 'round-robin' | 'least-busy';
+
+export interface IpcHubOptions {
+  /** Strategy used to choose a peer for load balanced requests. By default "round-robin" is used. */
+  balance?: IpcHubBalance;
+  /** Options of the NodeSimpleIpc instance created for every peer. */
+  ipcOptions?: NodeSimpleIpcOptions;
+}
@@ -1,21 +1,262 @@
+import { IpcCodec } from './codec';
+import { IpcTracer } from './instrumentation';
+import { IpcMetadata } from './io-types';
+
+export interface IpcRetryOptions {
+  /** Maximum number of attempts, including the first one. */
+  attempts?: number;
+  /** Delay before the first retry in miliseconds. */
+  minDelay?: number;
+  /** Maximum delay between attempts in miliseconds. */
+  maxDelay?: number;
+  /** Delay multiplier applied after every attempt. */
+  factor?: number;
+  /** Whether to randomize the delay between zero and the computed delay. */
+  jitter?: boolean;
+  /** Whether to retry after the error. By default timeouts and not found RPC endpoints are retried. */
+  shouldRetry?: (err: unknown, attempt: number) => boolean;
+}
+
 export interface IpcActOptions {
-  /** Act timeout in miliseconds. */
+  /** Act timeout in miliseconds (per attempt). Infinity waits forever. */
+  timeout?: number;
+  /** Signal used to abort the request. The remote handler is notified about the cancellation. */
+  signal?: AbortSignal;
+  /** Retry options or the maximum number of attempts. */
+  retry?: IpcRetryOptions | number;
+  /** Idempotency key of the request. By default a new key is generated for retried requests. */
+  idempotencyKey?: string;
+  /** Listener of the progress notifications sent by the handler with ctx.emitToCaller(). */
+  onProgress?: (event: string, data: unknown) => void;
+}
+
+export interface IpcActStreamOptions {
+  /** Maximum time in miliseconds to wait for the next chunk. Infinity waits forever. */
+  timeout?: number;
+  /** Maximum number of chunks buffered on the consumer side. */
+  highWaterMark?: number;
+}
+
+export interface IpcWaitForOptions {
+  /** Wait timeout in miliseconds. Infinity waits forever. */
   timeout?: number;
 }
 
 export interface NodeSimpleIpcOptions {
-  /** Default act timeout in miliseconds. */
+  /** Default act timeout in miliseconds. Infinity waits forever. */
   actTimeout?: number;
+  /** Maximum number of results of idempotent requests kept by the RPC handlers. */
+  idempotencyCacheSize?: number;
+  /** Serialization of the IPC channel. Detected from the IPC process by default. */
+  serialization?: IpcSerialization;
+  /** Codec of the frame data. The data is sent as is by default. */
+  codec?: IpcCodec;
+  /** Maximum number of requests handled at the same time by all RPC endpoints. Unlimited by default. */
+  concurrency?: number;
+  /** Maximum number of requests waiting for a free slot of the instance. Unlimited by default. */
+  maxQueue?: number;
+  /** Upper bounds of the latency histogram buckets in miliseconds. */
+  latencyBuckets?: number[];
+  /** Tracer used to start spans for requests and events. Nothing is traced by default. */
+  tracer?: IpcTracer;
+  /** Enable batching of requests with the default options (true) or the given options. Disabled by default. */
+  batch?: boolean | IpcBatchOptions;
+  /** Enable heartbeat with the default options (true) or the given options. Disabled by default. */
+  heartbeat?: boolean | IpcHeartbeatOptions;
+  /** Maximum size in bytes of a serialized message. Larger messages are split into fragments. Unlimited by default. */
+  maxFrameSize?: number;
+  /** Maximum size in bytes of a fragmented message. Larger messages are dropped by the receiver. */
+  maxMessageSize?: number;
+  /** Time in miliseconds to receive all fragments of a message before it is dropped. */
+  reassemblyTimeout?: number;
+}
+
+export interface IpcBatchOptions {
+  /** Time in miliseconds during which requests are collected. By default 0, the requests made before the pending microtasks are done are sent together. */
+  window?: number;
+  /** Maximum number of frames in a batch. The batch is sent as soon as it is full. By default 100. */
+  maxSize?: number;
 }
 
+/**
+ * Requests made by the methods of the context are sent in batches.
+ */
+export interface IpcBatchContext {
+  act<D = unknown>(
+    name: string,
+    data?: unknown,
+    options?: IpcActOptions,
+  ): Promise<D>;
+}
+
+export interface IpcHeartbeatOptions {
+  /** Interval between pings in miliseconds. By default 1000 ms. */
+  interval?: number;
+  /** Number of missed pongs in a row after which the peer is declared down. By default 3. */
+  maxMissed?: number;
+}
+
+/**
+ * Peer health detected by heartbeat. It is "unknown" until the first pong or if heartbeat is disabled.
+ */
+export type IpcPeerHealth = 'unknown' | 'up' | 'down';
+
+/**
+ * Serialization of an IPC channel. The "advanced" serialization (structured clone)
+ * carries binary data natively, the "json" serialization needs it encoded.
+ */
+export type IpcSerialization = 'json' | 'advanced';
+
+/** Callback of IpcProcess.send(), called with an error if the message could not be sent. */
+export type IpcSendCallback = (err: Error | null) => void;
+
 export interface IpcProcess {
-  send?(data: object): boolean;
+  /** Serialization of the channel, "json" if not set. */
+  serialization?: IpcSerialization;
+  /**
+   * Send a message. The callback is called once the message was sent, with an error if it could not be sent.
+   * Returning false signals backpressure: no other message is sent until the callback is called.
+   */
+  send?(data: object, callback?: IpcSendCallback): boolean;
   on(eventName: string, listener: (data: unknown) => void): void;
   off(eventName: string, listener: (data: unknown) => void): void;
 }
 
-export type IpcHandler<I = unknown, O = unknown> = (i: I) => O;
+export interface IpcHandlerContext {
+  /** Correlation id of the request. */
+  correlationId: string;
+  /** RPC name. */
+  name: string;
+  /** Time (Unix epoch in miliseconds) after which the caller stops waiting for the response. Undefined if the caller waits forever. */
+  deadline?: number;
+  /** Metadata of the request frame. */
+  metadata: IpcMetadata;
+  /** Signal aborted when the caller cancels the request or the instance is closed. */
+  signal: AbortSignal;
+  /**
+   * Send a progress notification to the onProgress listener of the caller.
+   * Returns the sending result, false if the caller does not listen to progress or the request is finished.
+   */
+  emitToCaller(event: string, data?: unknown): boolean;
+}
+
+export type IpcHandler<I = unknown, O = unknown> = (
+  i: I,
+  ctx: IpcHandlerContext,
+) => O;
+
+/**
+ * Stub of a function passed in the request data. Calling the stub calls the function
+ * in the process which sent the request and resolves with its result.
+ * The function is released when the request completes or the stub is disposed.
+ * Callbacks are not supported for requests forwarded between IpcHub peers.
+ */
+export type IpcCallbackStub<A extends unknown[] = unknown[], R = unknown> = ((
+  ...args: A
+) => Promise<R>) & {
+  /** Release the function in the process which sent the request. Later calls are rejected. */
+  dispose(): void;
+};
+
+/**
+ * Object with the methods of a service exposed with expose(), calling act() under the hood.
+ * Methods named with a "_" prefix and inherited methods are not exposed.
+ */
+export type IpcServiceProxy<T> = {
+  [K in keyof T as K extends `_${string}`
+    ? never
+    : K extends string
+    ? T[K] extends (...args: never[]) => unknown
+      ? K
+      : never
+    : never]: T[K] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<Awaited<R>>
+    : never;
+};
+
+/** Schema object with a parse() method (e.g. a zod schema). Throws on invalid values. */
+export interface IpcSchema<T = unknown> {
+  parse(value: unknown): T;
+}
+
+/** Validate function (e.g. a compiled ajv schema). Returns false or throws on invalid values. */
+export interface IpcValidateFn {
+  (value: unknown): boolean | void;
+  errors?: unknown;
+}
+
+export type IpcValidator<T = unknown> = IpcSchema<T> | IpcValidateFn;
+
+export interface IpcAddOptions<I = unknown, O = unknown> {
+  /** Validator of the request data. */
+  input?: IpcValidator<I>;
+  /** Validator of the response data (not applied to streams). */
+  output?: IpcValidator<O>;
+  /** Maximum number of requests handled at the same time. Unlimited by default. */
+  concurrency?: number;
+  /** Maximum number of requests waiting for a free slot. Unlimited by default. Other requests are rejected with OverloadedError. */
+  maxQueue?: number;
+}
+
+export interface IpcLoad {
+  /** Number of requests being handled. */
+  active: number;
+  /** Number of requests waiting in the queue. */
+  queued: number;
+}
+
+export interface IpcEventOptions<T = unknown> {
+  /** Validator of the event data. The handler is not called for invalid data. */
+  schema?: IpcValidator<T>;
+}
+
+export interface IpcEmitOptions {
+  /** Send the event even if the peer has no listener for it. */
+  force?: boolean;
+}
+
+/**
+ * Result of emit(): whether the event was sent,
+ * or "unsubscribed" when it was not sent because the peer has no listener for it.
+ */
+export type IpcEmitResult = boolean | 'unsubscribed';
+
+/** Error class which can be registered in the error registry. */
+export type ErrorClass = new (...args: never[]) => Error;
+
+/** act and emit are outbound, handle (RPC handler invocation) and event (event dispatch) are inbound. */
+export type IpcMiddlewareKind = 'act' | 'emit' | 'handle' | 'event';
+
+export interface IpcMiddlewareContext {
+  kind: IpcMiddlewareKind;
+  /** RPC or event name. */
+  name: string;
+  /** Request or event data. Can be changed by outbound middleware before calling next(). */
+  data: unknown;
+  /** Metadata of the request or event frame. */
+  metadata: IpcMetadata;
+  /** Metadata of the response frame (act and handle only). */
+  replyMetadata: IpcMetadata;
+  /** Correlation id of the request (act and handle only). */
+  correlationId?: string;
+}
+
+/**
+ * Calls the next middleware. Returns the response promise for act and handle,
+ * the sending result for emit and the dispatch result for event.
+ */
+export type IpcMiddlewareNext = () => unknown;
+
+/**
+ * Middleware. Returning without calling next() short-circuits the chain with the returned result,
+ * throwing short-circuits it with the error.
+ */
+export type IpcMiddleware = (
+  ctx: IpcMiddlewareContext,
+  next: IpcMiddlewareNext,
+) => unknown;
 
-export type EventHandler<T = unknown> = (data: T) => void;
+/** Event listener. The event name is passed to listeners of patterns (e.g. "job.*") only. */
+export type EventHandler<T = unknown> = (data: T, event?: string) => void;
 
 export type RemoveHandler = () => void;
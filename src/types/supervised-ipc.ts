@@ -0,0 +1,63 @@
+import { ForkOptions } from 'child_process';
+import {
+  IpcProcess,
+  IpcRetryOptions,
+  NodeSimpleIpcOptions,
+} from './node-simple-ipc';
+
+/**
+ * What happens to requests in flight when the child process exits:
+ * "fail" rejects them with ChildExitedError, "replay" sends them again to the restarted child.
+ */
+export type IpcInFlightPolicy = 'fail' | 'replay';
+
+/** Backoff between restarts of the child process. */
+export type IpcRestartBackoff = Pick<
+  IpcRetryOptions,
+  'minDelay' | 'maxDelay' | 'factor' | 'jitter'
+>;
+
+export interface SupervisedIpcOptions {
+  /** Options of the NodeSimpleIpc instance created for every child process. */
+  ipcOptions?: NodeSimpleIpcOptions;
+  /** Maximum number of restarts within the restart window before giving up. */
+  maxRestarts?: number;
+  /** Restart window in miliseconds. */
+  restartWindow?: number;
+  /** Backoff between restarts. */
+  backoff?: IpcRestartBackoff;
+  /** Policy of the requests in flight when the child process exits. By default they fail. */
+  inFlight?: IpcInFlightPolicy;
+}
+
+export interface ForkIpcOptions extends SupervisedIpcOptions {
+  /** Arguments of the child process. */
+  args?: string[];
+  /** Options passed to child_process.fork(). */
+  forkOptions?: ForkOptions;
+}
+
+/** Child process managed by SupervisedIpc (e.g. ChildProcess). */
+export interface SupervisedProcess extends IpcProcess {
+  kill?(): boolean;
+}
+
+/** Data of the "child:exited" lifecycle event. */
+export interface IpcChildExit {
+  code: number | null;
+  signal: string | null;
+}
+
+/** Data of the "child:restarting" lifecycle event. */
+export interface IpcChildRestart {
+  /** Number of the restart within the restart window, starting from 1. */
+  attempt: number;
+  /** Delay before the restart in miliseconds. */
+  delay: number;
+}
+
+/** Data of the "child:gave-up" lifecycle event. */
+export interface IpcChildGaveUp {
+  /** Number of restarts within the restart window. */
+  restarts: number;
+}
@@ -0,0 +1,38 @@
+import { createAbortController } from './abort';
+
+describe('createAbortController()', () => {
+  const globals = global as { AbortController?: unknown };
+  const NativeAbortController = globals.AbortController;
+
+  afterEach(() => {
+    globals.AbortController = NativeAbortController;
+  });
+
+  it('should use the global AbortController when it exists.', () => {
+    if (NativeAbortController === undefined) {
+      return;
+    }
+
+    expect(createAbortController()).toBeInstanceOf(NativeAbortController);
+  });
+
+  it('should abort the signal of the fallback controller once.', () => {
+    delete globals.AbortController;
+
+    const controller = createAbortController();
+    const onAbort = jest.fn();
+    const removed = jest.fn();
+    controller.signal.addEventListener('abort', onAbort);
+    controller.signal.addEventListener('abort', removed);
+    controller.signal.removeEventListener('abort', removed);
+
+    expect(controller.signal.aborted).toBe(false);
+
+    controller.abort();
+    controller.abort();
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(onAbort).toBeCalledTimes(1);
+    expect(removed).not.toBeCalled();
+  });
+});
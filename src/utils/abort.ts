@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+
+// Minimal AbortSignal for Node.js versions without the global AbortController (before 15).
+class FallbackAbortSignal extends EventEmitter {
+  public aborted = false;
+
+  public onabort: ((event: { type: string }) => void) | null = null;
+
+  public addEventListener(type: string, listener: () => void): void {
+    this.on(type, listener);
+  }
+
+  public removeEventListener(type: string, listener: () => void): void {
+    this.off(type, listener);
+  }
+
+  public dispatchEvent(event: { type: string }): boolean {
+    if (event.type === 'abort') {
+      this.onabort?.(event);
+    }
+
+    return this.emit(event.type, event);
+  }
+}
+
+/**
+ * Create an AbortController, or a minimal replacement when the global AbortController does not exist.
+ *
+ * @returns The abort controller.
+ */
+export function createAbortController(): AbortController {
+  if (typeof AbortController !== 'undefined') {
+    return new AbortController();
+  }
+
+  const signal = new FallbackAbortSignal();
+
+  return {
+    signal,
+    abort: (): void => {
+      if (!signal.aborted) {
+        signal.aborted = true;
+        signal.dispatchEvent({ type: 'abort' });
+      }
+    },
+  } as unknown as AbortController;
+}
@@ -0,0 +1,115 @@
+import { IpcDataType, IpcEvent } from '../types';
+import {
+  decodeBinaryFrame,
+  detectSerialization,
+  encodeBinaryFrame,
+} from './binary';
+import { FakeIpcProcess } from './fake-proc-ipc';
+
+function roundTrip(data: unknown, json = true): unknown {
+  const frame = encodeBinaryFrame<IpcEvent>(
+    { name: 'event', data, type: IpcDataType.Event },
+    json ? 'json' : 'advanced',
+  );
+  const received = json ? JSON.parse(JSON.stringify(frame)) : frame;
+
+  return (decodeBinaryFrame(received) as IpcEvent).data;
+}
+
+describe('Binary frame encoding', () => {
+  it('should return frames without binary values unchanged.', () => {
+    const frame = {
+      name: 'event',
+      data: { list: [1, 'a'], nested: { ok: true } },
+      type: IpcDataType.Event,
+    };
+
+    expect(encodeBinaryFrame(frame, 'json')).toBe(frame);
+    expect(encodeBinaryFrame({ names: [] }, 'json')).toEqual({ names: [] });
+    expect(decodeBinaryFrame(frame)).toBe(frame);
+  });
+
+  it('should base64 encode binary values for the JSON serialization.', () => {
+    const frame = encodeBinaryFrame(
+      { data: { file: Buffer.from('hi') } },
+      'json',
+    );
+
+    expect(frame).toEqual({
+      data: { file: { $binary: 0, kind: 'Buffer' } },
+      binaries: ['aGk='],
+    });
+  });
+
+  it('should restore Buffers, typed arrays and ArrayBuffers.', () => {
+    const data = {
+      buffer: Buffer.from('buffer'),
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([1.5, -2]),
+      ints: new Int32Array([-1, 7]),
+      arrayBuffer: new Uint8Array([9, 8]).buffer,
+      list: [Buffer.from('a'), 1, null],
+      text: 'text',
+    };
+
+    [true, false].forEach((json) => {
+      const decoded = roundTrip(data, json) as typeof data;
+
+      expect(decoded).toEqual(data);
+      expect(Buffer.isBuffer(decoded.buffer)).toBe(true);
+      expect(Buffer.isBuffer(decoded.list[0])).toBe(true);
+      expect(decoded.floats).toBeInstanceOf(Float64Array);
+      expect(decoded.arrayBuffer).toBeInstanceOf(ArrayBuffer);
+    });
+  });
+
+  it('should encode only the bytes of a Buffer slice.', () => {
+    const slice = Buffer.from('0123456789').subarray(2, 4);
+    const frame = encodeBinaryFrame<{ data: unknown; binaries?: unknown }>(
+      { data: slice },
+      'advanced',
+    );
+
+    expect(frame.binaries).toEqual([new Uint8Array([50, 51])]);
+    expect((frame.binaries as Uint8Array[])[0].buffer.byteLength).toBe(2);
+  });
+
+  it('should not traverse circular references.', () => {
+    const data: Record<string, unknown> = { file: Buffer.from('a') };
+    data.self = data;
+
+    const frame = encodeBinaryFrame({ data }, 'advanced') as {
+      data: Record<string, unknown>;
+    };
+
+    expect(frame.data.file).toEqual({ $binary: 0, kind: 'Buffer' });
+    expect(frame.data.self).toBe(data);
+  });
+});
+
+describe('detectSerialization', () => {
+  const env = process.env.NODE_CHANNEL_SERIALIZATION_MODE;
+
+  afterEach(() => {
+    if (env === undefined) {
+      delete process.env.NODE_CHANNEL_SERIALIZATION_MODE;
+    } else {
+      process.env.NODE_CHANNEL_SERIALIZATION_MODE = env;
+    }
+  });
+
+  it('should use the serialization of the IPC process.', () => {
+    const ipcProcess = new FakeIpcProcess(() => true);
+
+    expect(detectSerialization(ipcProcess)).toBe('json');
+
+    ipcProcess.serialization = 'advanced';
+    expect(detectSerialization(ipcProcess)).toBe('advanced');
+  });
+
+  it('should detect a child process forked with advanced serialization.', () => {
+    process.env.NODE_CHANNEL_SERIALIZATION_MODE = 'advanced';
+
+    expect(detectSerialization(process)).toBe('advanced');
+  });
+});
@@ -0,0 +1,252 @@
+import { IpcBinary, IpcProcess, IpcSerialization } from '../types';
+import { isPlainObject, mapObject } from './plain-object';
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor;
+
+// Typed arrays restored by the constructor name.
+const TYPED_ARRAYS: Record<string, TypedArrayConstructor> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+};
+
+// Placeholder of a binary value in frame data.
+interface BinaryPlaceholder {
+  $binary: number;
+  kind: string;
+}
+
+/**
+ * Returns the serialization of the IPC process channel.
+ * A child process forked with `serialization: 'advanced'` is detected by the NODE_CHANNEL_SERIALIZATION_MODE variable.
+ *
+ * @param ipcProcess IPC process.
+ * @returns The channel serialization.
+ */
+export function detectSerialization(ipcProcess: IpcProcess): IpcSerialization {
+  if (ipcProcess.serialization) {
+    return ipcProcess.serialization;
+  }
+
+  if (
+    ipcProcess === process &&
+    process.env.NODE_CHANNEL_SERIALIZATION_MODE === 'advanced'
+  ) {
+    return 'advanced';
+  }
+
+  return 'json';
+}
+
+/**
+ * Extract Buffers, typed arrays and ArrayBuffers from the frame data into the "binaries" field.
+ * Binary values are base64 encoded for the "json" serialization and passed as bytes otherwise.
+ * Only arrays and plain objects are traversed.
+ *
+ * @param frame Frame to encode.
+ * @param serialization Channel serialization.
+ * @returns The frame itself if its data has no binary values, otherwise a copy.
+ */
+export function encodeBinaryFrame<F extends object>(
+  frame: F,
+  serialization: IpcSerialization,
+): F {
+  if (!('data' in frame)) {
+    return frame;
+  }
+
+  const binaries: IpcBinary[] = [];
+  const data = encodeValue(
+    (frame as { data: unknown }).data,
+    serialization,
+    binaries,
+    new Set(),
+  );
+
+  return binaries.length > 0 ? { ...frame, data, binaries } : frame;
+}
+
+/**
+ * Restore the binary values of a frame encoded by encodeBinaryFrame().
+ *
+ * @param frame Received frame.
+ * @returns The frame itself if it has no binary values, otherwise a copy without the "binaries" field.
+ */
+export function decodeBinaryFrame(frame: unknown): unknown {
+  if (typeof frame !== 'object' || frame === null) {
+    return frame;
+  }
+
+  const { binaries, ...rest } = frame as {
+    data?: unknown;
+    binaries?: unknown;
+  };
+
+  if (!Array.isArray(binaries)) {
+    return frame;
+  }
+
+  return { ...rest, data: decodeValue(rest.data, binaries) };
+}
+
+function encodeValue(
+  value: unknown,
+  serialization: IpcSerialization,
+  binaries: IpcBinary[],
+  seen: Set<unknown>,
+): unknown {
+  if (typeof value !== 'object' || value === null || seen.has(value)) {
+    return value;
+  }
+
+  const kind = binaryKind(value);
+
+  if (kind) {
+    const view = ArrayBuffer.isView(value)
+      ? value
+      : new Uint8Array(value as ArrayBuffer);
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const placeholder: BinaryPlaceholder = { $binary: binaries.length, kind };
+
+    binaries.push(
+      serialization === 'json'
+        ? Buffer.from(
+            bytes.buffer,
+            bytes.byteOffset,
+            bytes.byteLength,
+          ).toString('base64')
+        : // Copy the bytes so the whole (possibly pooled) underlying buffer is not cloned
+          bytes.slice(),
+    );
+
+    return placeholder;
+  }
+
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return value;
+  }
+
+  seen.add(value);
+
+  let changed = false;
+  const encodeItem = (item: unknown): unknown => {
+    const encoded = encodeValue(item, serialization, binaries, seen);
+    changed = changed || encoded !== item;
+    return encoded;
+  };
+
+  const encoded = Array.isArray(value)
+    ? value.map(encodeItem)
+    : mapObject(value, encodeItem);
+
+  seen.delete(value);
+
+  // Keep the original value if there are no binary values inside
+  return changed ? encoded : value;
+}
+
+function decodeValue(value: unknown, binaries: unknown[]): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (isBinaryPlaceholder(value)) {
+    return decodeBinary(binaries[value.$binary], value.kind);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeValue(item, binaries));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  return mapObject(value, (item) => decodeValue(item, binaries));
+}
+
+function decodeBinary(binary: unknown, kind: string): unknown {
+  let bytes: Uint8Array;
+
+  if (typeof binary === 'string') {
+    bytes = Buffer.from(binary, 'base64');
+  } else if (binary instanceof Uint8Array) {
+    bytes = binary;
+  } else {
+    // Leave malformed values as is
+    return binary;
+  }
+
+  if (kind === 'Buffer') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  if (kind === 'ArrayBuffer') {
+    return bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength,
+    );
+  }
+
+  const TypedArray = TYPED_ARRAYS[kind];
+  const { BYTES_PER_ELEMENT } = TypedArray;
+
+  // Typed arrays require the offset to be a multiple of the element size
+  return bytes.byteOffset % BYTES_PER_ELEMENT === 0
+    ? new TypedArray(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength / BYTES_PER_ELEMENT,
+      )
+    : new TypedArray(new Uint8Array(bytes).buffer);
+}
+
+function binaryKind(value: object): string | undefined {
+  if (Buffer.isBuffer(value)) {
+    return 'Buffer';
+  }
+
+  if (value instanceof ArrayBuffer) {
+    return 'ArrayBuffer';
+  }
+
+  if (ArrayBuffer.isView(value) && isBinaryKind(value.constructor.name)) {
+    return value.constructor.name;
+  }
+
+  return undefined;
+}
+
+function isBinaryPlaceholder(value: object): value is BinaryPlaceholder {
+  const placeholder = value as Partial<BinaryPlaceholder>;
+
+  return (
+    typeof placeholder.$binary === 'number' &&
+    typeof placeholder.kind === 'string' &&
+    isBinaryKind(placeholder.kind) &&
+    Object.keys(value).length === 2
+  );
+}
+
+function isBinaryKind(kind: string): boolean {
+  return (
+    kind === 'Buffer' ||
+    kind === 'ArrayBuffer' ||
+    Object.prototype.hasOwnProperty.call(TYPED_ARRAYS, kind)
+  );
+}
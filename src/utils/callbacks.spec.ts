@@ -0,0 +1,52 @@
+import { extractCallbacks, restoreCallbacks } from './callbacks';
+
+describe('Callback placeholders', () => {
+  it('should return data without functions unchanged.', () => {
+    const data = { list: [1, 'a'], nested: { ok: true } };
+    const register = jest.fn();
+
+    expect(extractCallbacks(data, register)).toEqual({
+      data,
+      callbacks: [],
+    });
+    expect(extractCallbacks(data, register).data).toBe(data);
+    expect(register).not.toBeCalled();
+  });
+
+  it('should replace functions with placeholders and restore them as stubs.', () => {
+    const onProgress = (): void => undefined;
+    const onDone = (): void => undefined;
+    let nextId = 0;
+
+    const { data, callbacks } = extractCallbacks(
+      { path: 'a.txt', onProgress, handlers: [onDone] },
+      () => `cb${nextId++}`,
+    );
+
+    expect(data).toEqual({
+      path: 'a.txt',
+      onProgress: { $callback: 'cb0' },
+      handlers: [{ $callback: 'cb1' }],
+    });
+    expect(callbacks).toEqual(['cb0', 'cb1']);
+
+    expect(
+      restoreCallbacks(JSON.parse(JSON.stringify(data)), callbacks, (id) => id),
+    ).toEqual({ path: 'a.txt', onProgress: 'cb0', handlers: ['cb1'] });
+  });
+
+  it('should leave placeholders of unknown handles as is.', () => {
+    const data = { fake: { $callback: 'cb0' } };
+
+    expect(restoreCallbacks(data, [], () => 'stub')).toEqual(data);
+  });
+
+  it('should handle circular references.', () => {
+    const data: Record<string, unknown> = { fn: () => undefined };
+    data.self = data;
+
+    expect(extractCallbacks(data, () => 'cb0').data).toMatchObject({
+      fn: { $callback: 'cb0' },
+    });
+  });
+});
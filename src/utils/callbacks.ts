@@ -0,0 +1,105 @@
+import { isPlainObject, mapObject } from './plain-object';
+
+/** Reserved RPC name of the requests calling a callback passed in request data. */
+export const CALLBACK_RPC_NAME = '$callback';
+
+// Placeholder of a function in frame data.
+interface CallbackPlaceholder {
+  $callback: string;
+}
+
+/**
+ * Replace the functions in the data with placeholders referencing callback handles.
+ * Only arrays and plain objects are traversed.
+ *
+ * @param data Data to encode.
+ * @param register Registers a function and returns the id of its handle.
+ * @returns The data with placeholders (the data itself if it has no functions) and the ids of the handles.
+ */
+export function extractCallbacks(
+  data: unknown,
+  register: (fn: (...args: unknown[]) => unknown) => string,
+): { data: unknown; callbacks: string[] } {
+  const callbacks: string[] = [];
+  const seen = new Set<unknown>();
+
+  const encode = (value: unknown): unknown => {
+    if (typeof value === 'function') {
+      const id = register(value as (...args: unknown[]) => unknown);
+      const placeholder: CallbackPlaceholder = { $callback: id };
+
+      callbacks.push(id);
+
+      return placeholder;
+    }
+
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      seen.has(value) ||
+      !(Array.isArray(value) || isPlainObject(value))
+    ) {
+      return value;
+    }
+
+    seen.add(value);
+
+    let changed = false;
+    const encodeItem = (item: unknown): unknown => {
+      const encoded = encode(item);
+      changed = changed || encoded !== item;
+      return encoded;
+    };
+
+    const encoded = Array.isArray(value)
+      ? value.map(encodeItem)
+      : mapObject(value, encodeItem);
+
+    seen.delete(value);
+
+    // Keep the original value if there are no functions inside
+    return changed ? encoded : value;
+  };
+
+  return { data: encode(data), callbacks };
+}
+
+/**
+ * Replace the callback placeholders of the data with stubs.
+ * Only the placeholders of the listed handles are replaced.
+ *
+ * @param data Received data.
+ * @param callbacks Ids of the callback handles.
+ * @param createStub Creates the stub of a handle.
+ * @returns The data with stubs.
+ */
+export function restoreCallbacks(
+  data: unknown,
+  callbacks: string[],
+  createStub: (id: string) => unknown,
+): unknown {
+  const decode = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    if (isCallbackPlaceholder(value) && callbacks.includes(value.$callback)) {
+      return createStub(value.$callback);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(decode);
+    }
+
+    return isPlainObject(value) ? mapObject(value, decode) : value;
+  };
+
+  return decode(data);
+}
+
+function isCallbackPlaceholder(value: object): value is CallbackPlaceholder {
+  return (
+    typeof (value as Partial<CallbackPlaceholder>).$callback === 'string' &&
+    Object.keys(value).length === 1
+  );
+}
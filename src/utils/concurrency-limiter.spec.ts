@@ -0,0 +1,68 @@
+import { OverloadedError } from '../errors';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>((res) => (resolve = res));
+
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', function () {
+  it('should run tasks immediately without a limit.', async function () {
+    const limiter = new ConcurrencyLimiter();
+
+    await expect(limiter.run(() => 1)).resolves.toEqual(1);
+    expect(limiter.active).toEqual(0);
+  });
+
+  it('should queue tasks beyond the concurrency limit.', async function () {
+    const limiter = new ConcurrencyLimiter(1);
+    const first = deferred();
+    const second = jest.fn();
+
+    const firstResult = limiter.run(() => first.promise);
+    const secondResult = limiter.run(second);
+
+    expect(limiter.active).toEqual(1);
+    expect(limiter.queued).toEqual(1);
+    expect(second).not.toBeCalled();
+
+    first.resolve();
+    await firstResult;
+    await secondResult;
+
+    expect(second).toBeCalledTimes(1);
+    expect(limiter.active).toEqual(0);
+    expect(limiter.queued).toEqual(0);
+  });
+
+  it('should release the slot when a task fails.', async function () {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(
+      limiter.run(() => {
+        throw new Error('Failed.');
+      }),
+    ).rejects.toThrow('Failed.');
+    await expect(limiter.run(() => 2)).resolves.toEqual(2);
+  });
+
+  it('should reject tasks beyond the queue with OverloadedError.', async function () {
+    const limiter = new ConcurrencyLimiter(1, 1);
+    const task = deferred();
+
+    limiter.run(() => task.promise);
+    limiter.run(() => undefined);
+
+    await expect(limiter.run(() => undefined)).rejects.toBeInstanceOf(
+      OverloadedError,
+    );
+    task.resolve();
+  });
+
+  it('should throw on invalid limits.', function () {
+    expect(() => new ConcurrencyLimiter(0)).toThrow();
+    expect(() => new ConcurrencyLimiter(1, -1)).toThrow();
+  });
+});
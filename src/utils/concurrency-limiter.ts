@@ -0,0 +1,74 @@
+import { OverloadedError } from '../errors';
+
+/**
+ * Limits the number of tasks running at the same time. Other tasks wait in a FIFO queue.
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private queue: Array<() => void> = [];
+
+  /**
+   * Constructor.
+   *
+   * @param concurrency Maximum number of running tasks.
+   * @param maxQueue Maximum number of waiting tasks.
+   */
+  constructor(private concurrency = Infinity, private maxQueue = Infinity) {
+    if (!(concurrency >= 1)) {
+      throw new Error('The concurrency must be a positive number.');
+    }
+
+    if (!(maxQueue >= 0)) {
+      throw new Error('The maximum queue size must not be negative.');
+    }
+  }
+
+  /**
+   * Number of running tasks.
+   */
+  public get active(): number {
+    return this.running;
+  }
+
+  /**
+   * Number of waiting tasks.
+   */
+  public get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run the task when a slot is free.
+   *
+   * @param task Task to run.
+   * @returns The task result. Rejected with OverloadedError if the queue is full.
+   */
+  public run<T>(task: () => T | Promise<T>): Promise<T> {
+    if (this.running < this.concurrency) {
+      return this.start(task);
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new OverloadedError());
+    }
+
+    return new Promise((resolve) => {
+      this.queue.push(() => resolve(this.start(task)));
+    });
+  }
+
+  private start<T>(task: () => T | Promise<T>): Promise<T> {
+    this.running++;
+
+    // Convert sync function to async for catching all errors
+    const result = new Promise<T>((resolve) => resolve(task()));
+    const release = (): void => {
+      this.running--;
+      this.queue.shift()?.();
+    };
+
+    result.then(release, release);
+
+    return result;
+  }
+}
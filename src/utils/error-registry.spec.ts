@@ -0,0 +1,35 @@
+import { OverloadedError, ValidationError } from '../errors';
+import {
+  registerError,
+  unregisterError,
+  getRegisteredError,
+} from './error-registry';
+
+describe('registerError()', function () {
+  class CustomError extends Error {}
+
+  afterEach(() => unregisterError('CustomError'));
+
+  it('should register ValidationError and OverloadedError by default.', function () {
+    expect(getRegisteredError('ValidationError')).toBe(ValidationError);
+    expect(getRegisteredError('OverloadedError')).toBe(OverloadedError);
+  });
+
+  it('should register and unregister an error class.', function () {
+    registerError(CustomError);
+
+    expect(getRegisteredError('CustomError')).toBe(CustomError);
+
+    unregisterError('CustomError');
+
+    expect(getRegisteredError('CustomError')).toBeUndefined();
+  });
+
+  it('should register an error class under a custom name.', function () {
+    registerError(CustomError, 'MyError');
+
+    expect(getRegisteredError('MyError')).toBe(CustomError);
+
+    unregisterError('MyError');
+  });
+});
@@ -0,0 +1,40 @@
+import { OverloadedError, ValidationError } from '../errors';
+import { ErrorClass } from '../types';
+
+// Registered error classes by error name.
+const registry: Map<string, ErrorClass> = new Map([
+  [ValidationError.name, ValidationError],
+  [OverloadedError.name, OverloadedError],
+]);
+
+/**
+ * Register an error class. Remote errors with the same name are rethrown as instances of the class.
+ *
+ * @param errorClass Error class.
+ * @param name Error name. By default the class name is used.
+ */
+export function registerError(
+  errorClass: ErrorClass,
+  name: string = errorClass.name,
+): void {
+  registry.set(name, errorClass);
+}
+
+/**
+ * Unregister an error class.
+ *
+ * @param name Error name.
+ */
+export function unregisterError(name: string): void {
+  registry.delete(name);
+}
+
+/**
+ * Get a registered error class.
+ *
+ * @param name Error name.
+ * @returns The error class or undefined if no class is registered for the name.
+ */
+export function getRegisteredError(name: string): ErrorClass | undefined {
+  return registry.get(name);
+}
@@ -0,0 +1,54 @@
+import { compileEventPattern, isEventPattern } from './event-pattern';
+
+describe('isEventPattern()', function () {
+  it('should detect wildcard segments.', function () {
+    expect(isEventPattern('job.*')).toBe(true);
+    expect(isEventPattern('**')).toBe(true);
+    expect(isEventPattern('job.done')).toBe(false);
+    expect(isEventPattern('job*.done')).toBe(false);
+  });
+});
+
+describe('compileEventPattern()', function () {
+  it('should match one segment with "*".', function () {
+    const matcher = compileEventPattern('job.*');
+
+    expect(matcher.test('job.done')).toBe(true);
+    expect(matcher.test('job')).toBe(false);
+    expect(matcher.test('job.step.done')).toBe(false);
+    expect(matcher.test('jobs.done')).toBe(false);
+  });
+
+  it('should match one or more segments with "**".', function () {
+    const matcher = compileEventPattern('job.**');
+
+    expect(matcher.test('job.done')).toBe(true);
+    expect(matcher.test('job.step.done')).toBe(true);
+    expect(matcher.test('job')).toBe(false);
+    expect(compileEventPattern('**').test('anything.at.all')).toBe(true);
+    expect(compileEventPattern('a.**.z').test('a.b.c.z')).toBe(true);
+  });
+
+  it('should not match empty segments with wildcards.', function () {
+    expect(compileEventPattern('job.*').test('job.')).toBe(false);
+    expect(compileEventPattern('**').test('a..b')).toBe(false);
+    expect(compileEventPattern('a.**.**').test('a.b')).toBe(false);
+    expect(compileEventPattern('a.**.**').test('a.b.c')).toBe(true);
+  });
+
+  it('should match many "**" segments in linear time.', function () {
+    const matcher = compileEventPattern(`${'**.'.repeat(12)}z`);
+    const startedAt = Date.now();
+
+    expect(matcher.test(new Array(24).fill('a').join('.'))).toBe(false);
+    expect(matcher.test(`${new Array(23).fill('a').join('.')}.z`)).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(50);
+  });
+
+  it('should match other characters literally.', function () {
+    const matcher = compileEventPattern('price(usd).*');
+
+    expect(matcher.test('price(usd).eur')).toBe(true);
+    expect(matcher.test('priceXusd).eur')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Whether the event name is a pattern. In patterns, "*" matches one segment
+ * and "**" matches one or more segments of a dot-separated event name (e.g. "job.*" or "job.**").
+ *
+ * @param event Event name or pattern.
+ * @returns True if the event name contains wildcard segments.
+ */
+export function isEventPattern(event: string): boolean {
+  return event
+    .split('.')
+    .some((segment) => segment === '*' || segment === '**');
+}
+
+/** Matcher of event names compiled from an event pattern. */
+export interface EventPatternMatcher {
+  /** Whether the event name matches the pattern. */
+  test(event: string): boolean;
+}
+
+/**
+ * Compile an event pattern to a matcher of event names.
+ * Names are matched segment by segment, in time proportional to the number of
+ * pattern segments times the number of name segments, whatever the pattern.
+ *
+ * @param pattern Event pattern.
+ * @returns The matcher.
+ */
+export function compileEventPattern(pattern: string): EventPatternMatcher {
+  const tokens = pattern.split('.');
+
+  return {
+    test: (event: string): boolean => {
+      const segments = event.split('.');
+
+      // matched[i]: whether the first i segments match the tokens seen so far
+      let matched = segments.map((_, i) => i === 0).concat(false);
+
+      tokens.forEach((token) => {
+        const next: boolean[] = [false];
+
+        segments.forEach((segment, i) => {
+          if (token === '*') {
+            next.push(matched[i] && segment !== '');
+          } else if (token === '**') {
+            // One or more segments: extend the previous token or this one
+            next.push((matched[i] || next[i]) && segment !== '');
+          } else {
+            next.push(matched[i] && segment === token);
+          }
+        });
+
+        matched = next;
+      });
+
+      return matched[segments.length];
+    },
+  };
+}
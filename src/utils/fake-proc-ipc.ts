@@ -1,13 +1,20 @@
 import { EventEmitter } from 'events';
-import { IpcProcess } from '../types';
+import { IpcProcess, IpcSendCallback, IpcSerialization } from '../types';
 
 export class FakeIpcProcess extends EventEmitter implements IpcProcess {
-  constructor(private sendCallback: (data: unknown) => boolean) {
+  public serialization?: IpcSerialization;
+
+  constructor(
+    private sendCallback: (
+      data: unknown,
+      callback?: IpcSendCallback,
+    ) => boolean,
+  ) {
     super();
   }
 
-  send(data: unknown): boolean {
-    return this.sendCallback(data);
+  send(data: unknown, callback?: IpcSendCallback): boolean {
+    return this.sendCallback(data, callback);
   }
 }
 
@@ -15,12 +22,21 @@ export class FakeIpc {
   public master: FakeIpcProcess;
   public child: FakeIpcProcess;
 
-  constructor() {
-    this.master = new FakeIpcProcess((data: unknown) => {
-      return this.child.emit('message', data);
+  /**
+   * Constructor.
+   *
+   * @param transform Transforms sent messages, e.g. to simulate the channel serialization.
+   */
+  constructor(transform: (data: unknown) => unknown = (data): unknown => data) {
+    this.master = new FakeIpcProcess((data, callback) => {
+      const result = this.child.emit('message', transform(data));
+      callback?.(null);
+      return result;
     });
-    this.child = new FakeIpcProcess((data: unknown) => {
-      return this.master.emit('message', data);
+    this.child = new FakeIpcProcess((data, callback) => {
+      const result = this.master.emit('message', transform(data));
+      callback?.(null);
+      return result;
     });
   }
 }
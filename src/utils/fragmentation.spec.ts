@@ -0,0 +1,120 @@
+import { IpcDataType, IpcFragment } from '../types';
+import { encodeBinaryFrame } from './binary';
+import {
+  deserializeMessage,
+  fragmentChunkSize,
+  FragmentAssembler,
+  serializeMessage,
+} from './fragmentation';
+
+function fragments(bytes: Buffer, chunkSize: number, id = 'm1'): IpcFragment[] {
+  const count = Math.ceil(bytes.byteLength / chunkSize);
+
+  return Array.from({ length: count }, (_, index) => ({
+    id,
+    index,
+    count,
+    size: bytes.byteLength,
+    data: bytes.subarray(index * chunkSize, (index + 1) * chunkSize),
+    encoding: 'json',
+    type: IpcDataType.Fragment,
+  }));
+}
+
+describe('serializeMessage()', function () {
+  it('should serialize messages for both channel serializations.', function () {
+    const message = { text: 'žluťoučký', list: [1, 2] };
+
+    (['json', 'advanced'] as const).forEach((serialization) => {
+      const bytes = serializeMessage(message, serialization);
+
+      expect(deserializeMessage(bytes, serialization)).toEqual(message);
+    });
+    expect(serializeMessage(message, 'json').toString()).toEqual(
+      JSON.stringify(message),
+    );
+  });
+});
+
+describe('fragmentChunkSize()', function () {
+  it('should fit the encoded fragments into the maximum frame size.', function () {
+    (['json', 'advanced'] as const).forEach((serialization) => {
+      [300, 1000, 100000].forEach((maxFrameSize) => {
+        const bytes = Buffer.alloc(maxFrameSize * 3);
+        const chunkSize = fragmentChunkSize(
+          'm1',
+          bytes.byteLength,
+          maxFrameSize,
+          serialization,
+        );
+
+        expect(chunkSize).toBeGreaterThan(0);
+
+        fragments(bytes, chunkSize).forEach((fragment) => {
+          const frame = encodeBinaryFrame(
+            { ...fragment, encoding: serialization },
+            serialization,
+          );
+
+          expect(
+            serializeMessage(frame, serialization).byteLength,
+          ).toBeLessThanOrEqual(maxFrameSize);
+        });
+      });
+    });
+  });
+
+  it('should return 0 when the envelope exceeds the maximum frame size.', function () {
+    expect(fragmentChunkSize('m1', 1000, 50, 'json')).toEqual(0);
+    expect(fragmentChunkSize('m1', 1000, 50, 'advanced')).toEqual(0);
+  });
+});
+
+describe('FragmentAssembler', function () {
+  const bytes = serializeMessage({ text: 'x'.repeat(100) }, 'json');
+
+  it('should reassemble fragments received in any order.', function () {
+    const assembler = new FragmentAssembler(1000, 1000);
+    const [first, second, third] = fragments(bytes, 50);
+
+    expect(assembler.push(third)).toBeUndefined();
+    expect(assembler.push(first)).toBeUndefined();
+    expect(assembler.push(second)).toEqual(bytes);
+    expect(assembler.pending).toEqual(0);
+  });
+
+  it('should drop messages larger than the maximum size.', function () {
+    const assembler = new FragmentAssembler(100, 1000);
+
+    fragments(bytes, 50).forEach((fragment) =>
+      expect(assembler.push(fragment)).toBeUndefined(),
+    );
+    expect(assembler.pending).toEqual(0);
+  });
+
+  it('should drop messages with malformed fragments.', function () {
+    const assembler = new FragmentAssembler(1000, 1000);
+    const [first, second] = fragments(bytes, 50);
+
+    assembler.push(first);
+    expect(assembler.push({ ...second, count: 5 })).toBeUndefined();
+    expect(assembler.pending).toEqual(0);
+
+    assembler.push(first);
+    expect(assembler.push(first)).toBeUndefined();
+    expect(assembler.pending).toEqual(0);
+  });
+
+  it('should drop incomplete messages after the timeout.', function () {
+    jest.useFakeTimers();
+
+    const assembler = new FragmentAssembler(1000, 1000);
+    assembler.push(fragments(bytes, 50)[0]);
+
+    expect(assembler.pending).toEqual(1);
+    jest.advanceTimersByTime(1000);
+    expect(assembler.pending).toEqual(0);
+
+    jest.useRealTimers();
+  });
+});
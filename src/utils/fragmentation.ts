@@ -0,0 +1,209 @@
+import { deserialize, serialize } from 'v8';
+import { IpcDataType, IpcFragment, IpcSerialization } from '../types';
+import { decodeBinaryFrame, encodeBinaryFrame } from './binary';
+
+/** Default maximum size in bytes of a fragmented message. */
+export const DEFAULT_MAX_MESSAGE_SIZE = 512 * 1024 * 1024;
+
+/** Default time in miliseconds to receive all fragments of a message. */
+export const DEFAULT_REASSEMBLY_TIMEOUT = 30e3;
+
+// Upper bound of the growth of a serialized fragment with the length of its bytes ("advanced" serialization).
+const ADVANCED_LENGTH_OVERHEAD = 8;
+
+/**
+ * Serialize a message the way the IPC channel does, to measure and split it.
+ *
+ * @param message Message.
+ * @param serialization Channel serialization.
+ * @returns Bytes of the serialized message.
+ */
+export function serializeMessage(
+  message: unknown,
+  serialization: IpcSerialization,
+): Buffer {
+  return serialization === 'json'
+    ? Buffer.from(JSON.stringify(message))
+    : serialize(message);
+}
+
+/**
+ * Restore a message serialized by serializeMessage().
+ *
+ * @param bytes Bytes of the serialized message.
+ * @param serialization Channel serialization.
+ * @returns The message.
+ */
+export function deserializeMessage(
+  bytes: Buffer,
+  serialization: IpcSerialization,
+): unknown {
+  return serialization === 'json'
+    ? JSON.parse(bytes.toString())
+    : deserialize(bytes);
+}
+
+/**
+ * Returns the number of message bytes which fit into one fragment of the maximum frame size,
+ * after the fragment envelope and the base64 encoding of the "json" serialization.
+ *
+ * @param id Id of the fragmented message.
+ * @param size Size of the serialized message in bytes.
+ * @param maxFrameSize Maximum size of a serialized frame in bytes.
+ * @param serialization Channel serialization.
+ * @returns Number of bytes per fragment, 0 if the envelope alone exceeds the maximum frame size.
+ */
+export function fragmentChunkSize(
+  id: string,
+  size: number,
+  maxFrameSize: number,
+  serialization: IpcSerialization,
+): number {
+  // Index and count of the fragments are never larger than the size
+  const envelope = encodeBinaryFrame<IpcFragment>(
+    {
+      id,
+      index: size,
+      count: size,
+      size,
+      data: Buffer.alloc(0),
+      encoding: serialization,
+      type: IpcDataType.Fragment,
+    },
+    serialization,
+  );
+  const budget =
+    maxFrameSize - serializeMessage(envelope, serialization).byteLength;
+
+  if (serialization === 'json') {
+    // Every 3 bytes are encoded as 4 base64 characters
+    return Math.max(0, Math.floor(budget / 4) * 3);
+  }
+
+  return Math.max(0, budget - ADVANCED_LENGTH_OVERHEAD);
+}
+
+// Fragments of a message being reassembled.
+interface PartialMessage {
+  chunks: Uint8Array[];
+  count: number;
+  size: number;
+  // Number of received fragments.
+  received: number;
+  // Number of received bytes.
+  bytes: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Reassembles messages split into fragments. Messages larger than the maximum size,
+ * malformed messages and messages not completed within the timeout are dropped.
+ */
+export class FragmentAssembler {
+  private messages: Map<string, PartialMessage> = new Map();
+
+  /**
+   * Constructor.
+   *
+   * @param maxMessageSize Maximum size of a message in bytes.
+   * @param timeout Time in miliseconds to receive all fragments of a message.
+   */
+  constructor(private maxMessageSize: number, private timeout: number) {}
+
+  /**
+   * Number of messages being reassembled.
+   */
+  public get pending(): number {
+    return this.messages.size;
+  }
+
+  /**
+   * Add a received fragment.
+   *
+   * @param fragment Fragment with decoded binary data.
+   * @returns The bytes of the message when all its fragments were received, otherwise undefined.
+   */
+  public push(fragment: IpcFragment): Buffer | undefined {
+    const { id, index, count, size, data } = fragment;
+
+    if (size > this.maxMessageSize) {
+      return undefined;
+    }
+
+    let message = this.messages.get(id);
+
+    if (!message) {
+      message = {
+        chunks: [],
+        count,
+        size,
+        received: 0,
+        bytes: 0,
+        timer: setTimeout(() => this.messages.delete(id), this.timeout),
+      };
+      message.timer.unref();
+      this.messages.set(id, message);
+    }
+
+    if (
+      !(data instanceof Uint8Array) ||
+      count !== message.count ||
+      size !== message.size ||
+      !(index >= 0 && index < count) ||
+      message.chunks[index] ||
+      message.bytes + data.byteLength > size
+    ) {
+      this.drop(id);
+      return undefined;
+    }
+
+    message.chunks[index] = data;
+    message.received++;
+    message.bytes += data.byteLength;
+
+    if (message.received < message.count) {
+      return undefined;
+    }
+
+    this.drop(id);
+
+    return Buffer.concat(message.chunks, message.bytes);
+  }
+
+  /**
+   * Drop all messages being reassembled.
+   */
+  public clear(): void {
+    Array.from(this.messages.keys()).forEach((id) => this.drop(id));
+  }
+
+  private drop(id: string): void {
+    const message = this.messages.get(id);
+
+    if (message) {
+      clearTimeout(message.timer);
+      this.messages.delete(id);
+    }
+  }
+}
+
+/**
+ * Add a received fragment frame to the assembler and restore the message when all its fragments were received.
+ *
+ * @param assembler Fragment assembler.
+ * @param fragment Received fragment frame.
+ * @returns The message, or undefined while fragments are missing and for dropped or malformed messages.
+ */
+export function reassembleFragment(
+  assembler: FragmentAssembler,
+  fragment: IpcFragment,
+): unknown {
+  try {
+    const bytes = assembler.push(decodeBinaryFrame(fragment) as IpcFragment);
+
+    // The sender may detect another serialization of the channel (e.g. a parent can not detect it)
+    return bytes ? deserializeMessage(bytes, fragment.encoding) : undefined;
+  } catch (err) {
+    return undefined;
+  }
+}
@@ -0,0 +1,53 @@
+import { IdempotencyCache } from './idempotency-cache';
+
+describe('IdempotencyCache', function () {
+  it('should run the factory once per key.', async function () {
+    const cache = new IdempotencyCache<number>(10);
+    const factory = jest.fn(() => Promise.resolve(1));
+
+    await cache.remember('a', factory);
+    await cache.remember('a', factory);
+
+    expect(factory).toBeCalledTimes(1);
+  });
+
+  it('should remove failed results.', async function () {
+    const cache = new IdempotencyCache<number>(10);
+
+    await expect(
+      cache.remember('a', () => Promise.reject(new Error('Failed.'))),
+    ).rejects.toThrow('Failed.');
+    await expect(cache.remember('a', () => Promise.resolve(2))).resolves.toBe(
+      2,
+    );
+  });
+
+  it('should forget only the given result.', async function () {
+    const cache = new IdempotencyCache<number>(10);
+    const first = cache.remember('a', () => Promise.resolve(1));
+
+    cache.forget('a', Promise.resolve(1));
+    expect(cache.size).toBe(1);
+
+    cache.forget('a', first);
+    expect(cache.size).toBe(0);
+    await expect(cache.remember('a', () => Promise.resolve(2))).resolves.toBe(
+      2,
+    );
+  });
+
+  it('should evict the least recently used entries.', async function () {
+    const cache = new IdempotencyCache<string>(2);
+    const factory = jest.fn((value: string) => Promise.resolve(value));
+
+    await cache.remember('a', () => factory('a'));
+    await cache.remember('b', () => factory('b'));
+    await cache.remember('a', () => factory('a'));
+    await cache.remember('c', () => factory('c'));
+    await cache.remember('a', () => factory('a'));
+    await cache.remember('b', () => factory('b'));
+
+    expect(cache.size).toBe(2);
+    expect(factory.mock.calls).toEqual([['a'], ['b'], ['c'], ['b']]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Bounded cache of recent results by idempotency key. The least recently used entries are evicted first.
+ */
+export class IdempotencyCache<T = unknown> {
+  private entries: Map<string, Promise<T>> = new Map();
+
+  /**
+   * Constructor.
+   *
+   * @param maxSize Maximum number of entries.
+   */
+  constructor(private maxSize: number) {}
+
+  /**
+   * Number of entries.
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Return the result for the key, running the factory only if the key is not cached.
+   * Failed results are removed, so the next call with the same key runs the factory again.
+   *
+   * @param key Idempotency key.
+   * @param factory Function which produces the result.
+   * @returns The cached or the new result.
+   */
+  public remember(key: string, factory: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+
+    if (cached) {
+      // Mark as recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+
+      return cached;
+    }
+
+    const result = factory();
+
+    this.entries.set(key, result);
+    result.catch(() => {
+      if (this.entries.get(key) === result) {
+        this.entries.delete(key);
+      }
+    });
+
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove the result of the key, only if it is the given result.
+   * The next call with the same key runs the factory again.
+   *
+   * @param key Idempotency key.
+   * @param result Result to remove.
+   */
+  public forget(key: string, result: Promise<T>): void {
+    if (this.entries.get(key) === result) {
+      this.entries.delete(key);
+    }
+  }
+}
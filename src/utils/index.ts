@@ -1,3 +1,16 @@
 export * from './unique-id';
 export * from './validation';
 export * from './serialize-error';
+export * from './iterable';
+export * from './schema';
+export * from './error-registry';
+export * from './middleware';
+export * from './retry';
+export * from './idempotency-cache';
+export * from './binary';
+export * from './concurrency-limiter';
+export * from './event-pattern';
+export * from './fragmentation';
+export * from './plain-object';
+export * from './callbacks';
+export * from './abort';
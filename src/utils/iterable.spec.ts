@@ -0,0 +1,30 @@
+import { toAsyncIterator } from './iterable';
+
+describe('toAsyncIterator()', function () {
+  it('should return an iterator for an async iterable.', async function () {
+    async function* gen(): AsyncGenerator<number> {
+      yield 1;
+    }
+
+    const iterator = toAsyncIterator(gen());
+
+    await expect(iterator?.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(iterator?.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('should return an async iterator for a sync iterable.', async function () {
+    const iterator = toAsyncIterator([1, 2]);
+
+    await expect(iterator?.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(iterator?.next()).resolves.toEqual({ value: 2, done: false });
+  });
+
+  it('should return undefined for non iterable values.', function () {
+    expect(toAsyncIterator('abc')).toBeUndefined();
+    expect(toAsyncIterator(123)).toBeUndefined();
+    expect(toAsyncIterator(null)).toBeUndefined();
+  });
+});
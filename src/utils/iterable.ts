@@ -0,0 +1,33 @@
+/**
+ * Returns an async iterator for an async or sync iterable value.
+ *
+ * @param value Value to iterate.
+ * @returns Async iterator or undefined if the value is not iterable.
+ */
+export function toAsyncIterator<T = unknown>(
+  value: unknown,
+): AsyncIterator<T> | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const iterable = value as Partial<AsyncIterable<T> & Iterable<T>>;
+
+  if (typeof iterable[Symbol.asyncIterator] === 'function') {
+    return (iterable as AsyncIterable<T>)[Symbol.asyncIterator]();
+  }
+
+  if (typeof iterable[Symbol.iterator] === 'function') {
+    const iterator = (iterable as Iterable<T>)[Symbol.iterator]();
+
+    return {
+      next: () => Promise.resolve(iterator.next()),
+      return: (value?: T) =>
+        Promise.resolve(
+          iterator.return ? iterator.return(value) : { done: true, value },
+        ),
+    };
+  }
+
+  return undefined;
+}
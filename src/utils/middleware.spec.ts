@@ -0,0 +1,67 @@
+import { IpcMiddleware, IpcMiddlewareContext } from '../types';
+import { assertValidMiddleware, runMiddleware } from './middleware';
+
+describe('runMiddleware()', function () {
+  const createCtx = (): IpcMiddlewareContext => ({
+    kind: 'act',
+    name: 'test',
+    data: 1,
+    metadata: {},
+    replyMetadata: {},
+  });
+
+  it('should run the middleware in onion order.', function () {
+    const calls: string[] = [];
+    const middleware =
+      (id: string): IpcMiddleware =>
+      (_, next) => {
+        calls.push(`${id}:in`);
+        const result = next();
+        calls.push(`${id}:out`);
+        return result;
+      };
+
+    const result = runMiddleware(
+      [middleware('a'), middleware('b')],
+      createCtx(),
+      () => {
+        calls.push('terminal');
+        return 'done';
+      },
+    );
+
+    expect(result).toEqual('done');
+    expect(calls).toEqual(['a:in', 'b:in', 'terminal', 'b:out', 'a:out']);
+  });
+
+  it('should short-circuit the chain with a result.', function () {
+    const terminal = jest.fn();
+
+    expect(
+      runMiddleware([(): string => 'cached'], createCtx(), terminal),
+    ).toEqual('cached');
+    expect(terminal).not.toBeCalled();
+  });
+
+  it('should throw an error when next() is called multiple times.', function () {
+    expect(() =>
+      runMiddleware(
+        [
+          (_, next): unknown => {
+            next();
+            return next();
+          },
+        ],
+        createCtx(),
+        () => undefined,
+      ),
+    ).toThrow('next() called multiple times.');
+  });
+});
+
+describe('assertValidMiddleware()', function () {
+  it('should throw an error on an invalid middleware.', function () {
+    expect(() => assertValidMiddleware(() => undefined)).not.toThrow();
+    expect(() => assertValidMiddleware('mw')).toThrow();
+  });
+});
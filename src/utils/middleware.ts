@@ -0,0 +1,45 @@
+import { IpcMiddleware, IpcMiddlewareContext } from '../types';
+
+export function assertValidMiddleware(
+  middleware: unknown,
+): middleware is IpcMiddleware {
+  if (typeof middleware === 'function') {
+    return true;
+  }
+
+  throw new Error('IPC middleware must be a function.');
+}
+
+/**
+ * Run the middleware chain in onion order, the first middleware being the outermost one.
+ *
+ * @param middlewares Middleware list.
+ * @param ctx Middleware context.
+ * @param terminal Function called by the innermost next().
+ * @returns The result of the chain.
+ */
+export function runMiddleware(
+  middlewares: IpcMiddleware[],
+  ctx: IpcMiddlewareContext,
+  terminal: () => unknown,
+): unknown {
+  const dispatch = (index: number): unknown => {
+    if (index >= middlewares.length) {
+      return terminal();
+    }
+
+    let called = false;
+
+    return middlewares[index](ctx, () => {
+      if (called) {
+        throw new Error('next() called multiple times.');
+      }
+
+      called = true;
+
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0);
+}
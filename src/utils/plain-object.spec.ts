@@ -0,0 +1,37 @@
+import { isPlainObject, mapObject, setOwnProperty } from './plain-object';
+
+describe('Plain objects', () => {
+  it('should only accept objects with the Object or null prototype.', () => {
+    expect(isPlainObject({ a: 1 })).toBe(true);
+    expect(isPlainObject(Object.create(null))).toBe(true);
+
+    expect(isPlainObject(null)).toBe(false);
+    expect(isPlainObject('a')).toBe(false);
+    expect(isPlainObject([1])).toBe(false);
+    expect(isPlainObject(new Date())).toBe(false);
+    expect(isPlainObject(new (class Point {})())).toBe(false);
+  });
+
+  it('should map the own properties to a new object.', () => {
+    const value = { a: 1, b: 2 };
+    const mapped = mapObject(value, (item) => (item as number) * 2);
+
+    expect(mapped).toEqual({ a: 2, b: 4 });
+    expect(mapped).not.toBe(value);
+  });
+
+  it('should copy "__proto__" keys as own properties.', () => {
+    const mapped = mapObject(JSON.parse('{"__proto__":{"a":1}}'), (x) => x);
+
+    expect(Object.getPrototypeOf(mapped)).toBe(Object.prototype);
+    expect(mapped).not.toHaveProperty('a');
+    expect(Object.keys(mapped)).toEqual(['__proto__']);
+  });
+
+  it('should set own properties.', () => {
+    const target = {};
+    setOwnProperty(target, 'a', 1);
+
+    expect(target).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Whether the value is a plain object (created by an object literal or with a null prototype).
+ *
+ * @param value Value to check.
+ * @returns Whether the value is a plain object.
+ */
+export function isPlainObject(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Map the own enumerable properties of the object to a new plain object.
+ *
+ * @param value Object to map.
+ * @param fn Maps a property value.
+ * @returns The object with the mapped property values.
+ */
+export function mapObject(
+  value: object,
+  fn: (item: unknown) => unknown,
+): Record<string, unknown> {
+  return Object.keys(value).reduce<Record<string, unknown>>((result, key) => {
+    setOwnProperty(result, key, fn((value as Record<string, unknown>)[key]));
+    return result;
+  }, {});
+}
+
+/**
+ * Set an own enumerable property of the object.
+ * Unlike an assignment, a "__proto__" key does not change the prototype of the object.
+ *
+ * @param target Object to set the property of.
+ * @param key Property name.
+ * @param value Property value.
+ */
+export function setOwnProperty(
+  target: object,
+  key: string,
+  value: unknown,
+): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: true,
+  });
+}
@@ -0,0 +1,63 @@
+import {
+  OverloadedError,
+  RemoteError,
+  RPC_NOT_FOUND_CODE,
+  TimeoutError,
+} from '../errors';
+import { isRetryableError, normalizeRetryOptions, retryDelay } from './retry';
+
+describe('isRetryableError()', function () {
+  it('should retry timeouts, overloaded and not found RPC endpoints.', function () {
+    expect(isRetryableError(new TimeoutError())).toBe(true);
+    expect(isRetryableError(new OverloadedError())).toBe(true);
+    expect(
+      isRetryableError(
+        new RemoteError('Not found.', {
+          message: 'Not found.',
+          code: RPC_NOT_FOUND_CODE,
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should not retry other errors.', function () {
+    expect(isRetryableError(new Error('Test'))).toBe(false);
+    expect(
+      isRetryableError(new RemoteError('Failed.', { message: 'Failed.' })),
+    ).toBe(false);
+  });
+});
+
+describe('normalizeRetryOptions()', function () {
+  it('should accept the number of attempts.', function () {
+    expect(normalizeRetryOptions(5)).toMatchObject({
+      attempts: 5,
+      minDelay: 100,
+    });
+  });
+});
+
+describe('retryDelay()', function () {
+  it('should grow exponentially up to the maximum delay.', function () {
+    const options = normalizeRetryOptions({
+      minDelay: 10,
+      maxDelay: 50,
+      jitter: false,
+    });
+
+    expect([1, 2, 3, 4].map((n) => retryDelay(n, options))).toEqual([
+      10, 20, 40, 50,
+    ]);
+  });
+
+  it('should randomize the delay with jitter.', function () {
+    const options = normalizeRetryOptions({ minDelay: 10 });
+
+    for (let i = 0; i < 10; i++) {
+      const delay = retryDelay(2, options);
+
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(20);
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  OverloadedError,
+  RemoteError,
+  RPC_NOT_FOUND_CODE,
+  TimeoutError,
+} from '../errors';
+import { IpcRetryOptions } from '../types';
+
+/**
+ * Whether a request error is worth retrying: timeouts, overloaded and not found RPC endpoints (e.g. a restarting peer).
+ *
+ * @param err Request error.
+ * @returns True if the request can be retried.
+ */
+export function isRetryableError(err: unknown): boolean {
+  return (
+    err instanceof TimeoutError ||
+    err instanceof OverloadedError ||
+    (err instanceof RemoteError && err.remoteError.code === RPC_NOT_FOUND_CODE)
+  );
+}
+
+/**
+ * Fill the retry options with the default values.
+ *
+ * @param retry Retry options or the maximum number of attempts.
+ * @returns Complete retry options.
+ */
+export function normalizeRetryOptions(
+  retry: IpcRetryOptions | number,
+): Required<IpcRetryOptions> {
+  return {
+    attempts: 3,
+    minDelay: 100,
+    maxDelay: 5e3,
+    factor: 2,
+    jitter: true,
+    shouldRetry: isRetryableError,
+    ...(typeof retry === 'number' ? { attempts: retry } : retry),
+  };
+}
+
+/**
+ * Compute the exponential backoff delay before the next attempt.
+ *
+ * @param attempt Number of the failed attempt, starting from 1.
+ * @param options Retry options.
+ * @returns Delay in miliseconds.
+ */
+export function retryDelay(
+  attempt: number,
+  options: Required<IpcRetryOptions>,
+): number {
+  const delay = Math.min(
+    options.maxDelay,
+    options.minDelay * Math.pow(options.factor, attempt - 1),
+  );
+
+  return options.jitter ? Math.round(Math.random() * delay) : delay;
+}
@@ -0,0 +1,53 @@
+import { ValidationError } from '../errors';
+import { IpcValidateFn } from '../types';
+import { validateValue } from './schema';
+
+describe('validateValue()', function () {
+  it('should return the parsed value of a schema object.', function () {
+    const schema = { parse: (value: unknown): number => Number(value) };
+
+    expect(validateValue(schema, '5', 'Invalid.')).toEqual(5);
+  });
+
+  it('should throw ValidationError with the issues of a schema object.', function () {
+    const schema = {
+      parse: (): never => {
+        throw Object.assign(new Error('Bad.'), { issues: [{ path: ['a'] }] });
+      },
+    };
+
+    const catchError = (): unknown => {
+      try {
+        validateValue(schema, 1, 'Invalid.');
+      } catch (err) {
+        return err;
+      }
+
+      return undefined;
+    };
+
+    const err = catchError();
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).toHaveProperty('details', [{ path: ['a'] }]);
+  });
+
+  it('should throw ValidationError with the errors of a validate function.', function () {
+    const validate: IpcValidateFn = (value: unknown) =>
+      typeof value === 'string';
+    validate.errors = ['must be string'];
+
+    expect(validateValue(validate, 'ok', 'Invalid.')).toEqual('ok');
+    expect(() => validateValue(validate, 1, 'Invalid.')).toThrow(
+      ValidationError,
+    );
+  });
+
+  it('should throw ValidationError when a validate function throws.', function () {
+    const validate = (): void => {
+      throw new Error('Not a number.');
+    };
+
+    expect(() => validateValue(validate, 'a', 'Invalid.')).toThrow('Invalid.');
+  });
+});
@@ -0,0 +1,46 @@
+import { ValidationError } from '../errors';
+import { IpcValidator } from '../types';
+
+/**
+ * Validate a value.
+ *
+ * @param validator Schema object or validate function.
+ * @param value Value to validate.
+ * @param message Message of the ValidationError.
+ * @returns The validated (possibly parsed) value.
+ */
+export function validateValue<T = unknown>(
+  validator: IpcValidator<T>,
+  value: unknown,
+  message: string,
+): T {
+  if (typeof validator === 'function') {
+    let valid: boolean | void;
+
+    try {
+      valid = validator(value);
+    } catch (err) {
+      throw new ValidationError(message, validationDetails(err));
+    }
+
+    if (valid === false) {
+      throw new ValidationError(message, validator.errors);
+    }
+
+    return value as T;
+  }
+
+  try {
+    return validator.parse(value);
+  } catch (err) {
+    throw new ValidationError(message, validationDetails(err));
+  }
+}
+
+function validationDetails(err: unknown): unknown {
+  if (typeof err === 'object' && err !== null && 'issues' in err) {
+    return (err as { issues: unknown }).issues;
+  }
+
+  return err instanceof Error ? err.message : String(err);
+}
@@ -1,4 +1,12 @@
-import { serializeError } from './serialize-error';
+import { RemoteError, ValidationError } from '../errors';
+import { registerError, unregisterError } from './error-registry';
+import { deserializeError, serializeError } from './serialize-error';
+
+function withCause(err: Error, cause: unknown): Error {
+  // Same as the "cause" option of the Error constructor
+  Object.defineProperty(err, 'cause', { value: cause, enumerable: false });
+  return err;
+}
 
 describe('serializeError()', function () {
   it('should return error name, message and trace.', function () {
@@ -10,9 +18,114 @@ describe('serializeError()', function () {
     expect(Object.keys(remoteError)).toHaveLength(3);
   });
 
+  it('should return the error code and other enumerable properties.', function () {
+    const err = Object.assign(new Error('No such file.'), {
+      code: 'ENOENT',
+      path: '/tmp/missing',
+      fn: () => undefined,
+    });
+
+    expect(serializeError(err)).toMatchObject({
+      code: 'ENOENT',
+      path: '/tmp/missing',
+    });
+    expect(serializeError(err)).not.toHaveProperty('fn');
+  });
+
+  it('should return the cause chain.', function () {
+    const err = withCause(
+      new Error('Outer.'),
+      withCause(new Error('Inner.'), 'root'),
+    );
+
+    expect(serializeError(err).cause).toMatchObject({
+      message: 'Inner.',
+      cause: { message: 'root' },
+    });
+  });
+
+  it('should return the errors of an AggregateError.', function () {
+    const err = Object.defineProperty(new Error('Many.'), 'errors', {
+      value: [new Error('One.'), new TypeError('Two.')],
+      enumerable: false,
+    });
+
+    expect(serializeError(err).errors).toMatchObject([
+      { name: 'Error', message: 'One.' },
+      { name: 'TypeError', message: 'Two.' },
+    ]);
+  });
+
+  it('should replace circular references.', function () {
+    const err: Error & { self?: Error; data?: unknown } = new Error('Loop.');
+    const data: Record<string, unknown> = {};
+    data.data = data;
+    err.self = err;
+    err.data = data;
+
+    expect(serializeError(err)).toMatchObject({
+      self: '[Circular]',
+      data: { data: '[Circular]' },
+    });
+  });
+
   it('should return just error name.', function () {
     expect(serializeError(123)).toEqual({
       message: '123',
     });
   });
 });
+
+describe('deserializeError()', function () {
+  it('should return ValidationError for a serialized ValidationError.', function () {
+    const err = deserializeError(
+      serializeError(new ValidationError('Invalid.', ['details'])),
+    );
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).toHaveProperty('details', ['details']);
+  });
+
+  it('should return RemoteError for other errors.', function () {
+    expect(deserializeError(serializeError(new Error('Test')))).toBeInstanceOf(
+      RemoteError,
+    );
+  });
+
+  it('should revive registered error classes with the remote stack and cause.', function () {
+    class NotFoundError extends Error {
+      constructor(public resource: string) {
+        super(`${resource} not found.`);
+        this.name = 'NotFoundError';
+      }
+    }
+
+    registerError(NotFoundError);
+
+    const original = withCause(new NotFoundError('user'), new Error('Cause.'));
+    const err = deserializeError(serializeError(original));
+
+    unregisterError('NotFoundError');
+
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect(err.message).toEqual('user not found.');
+    expect(err.name).toEqual('NotFoundError');
+    expect(err.stack).toEqual(original.stack);
+    expect(err).toHaveProperty('resource', 'user');
+    expect((err as Error & { cause: unknown }).cause).toBeInstanceOf(
+      RemoteError,
+    );
+  });
+
+  it('should not let a "__proto__" property change the prototype of the error.', function () {
+    const err = deserializeError(
+      JSON.parse(
+        '{"name":"ValidationError","message":"Test","__proto__":{"isAdmin":true}}',
+      ),
+    );
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).not.toHaveProperty('isAdmin');
+    expect(Object.keys(err)).toContain('__proto__');
+  });
+});
@@ -1,15 +1,172 @@
+import { RemoteError } from '../errors';
 import { SerializedError } from '../types';
+import { getRegisteredError } from './error-registry';
+import { setOwnProperty } from './plain-object';
+
+// Properties serialized explicitly.
+const RESERVED_KEYS = ['name', 'message', 'stack', 'cause', 'errors'];
 
 export function serializeError(err: unknown): SerializedError {
-  if (err instanceof Error) {
+  return serializeErrorValue(err, new Set());
+}
+
+function serializeErrorValue(
+  err: unknown,
+  seen: Set<unknown>,
+): SerializedError {
+  if (!(err instanceof Error)) {
     return {
-      name: err.name,
-      stack: err.stack,
-      message: err.message,
+      message: String(err),
     };
   }
 
-  return {
-    message: String(err),
+  seen.add(err);
+
+  const serialized: SerializedError = {
+    name: err.name,
+    stack: err.stack,
+    message: err.message,
   };
+
+  Object.keys(err)
+    .filter((key) => !RESERVED_KEYS.includes(key))
+    .forEach((key) => {
+      const value = toSerializable(
+        (err as unknown as Record<string, unknown>)[key],
+        seen,
+      );
+
+      if (value !== undefined) {
+        setOwnProperty(serialized, key, value);
+      }
+    });
+
+  const { cause, errors } = err as { cause?: unknown; errors?: unknown };
+
+  if (cause !== undefined) {
+    serialized.cause = seen.has(cause)
+      ? { message: '[Circular]' }
+      : serializeErrorValue(cause, seen);
+  }
+
+  if (Array.isArray(errors)) {
+    serialized.errors = errors.map((item) => serializeErrorValue(item, seen));
+  }
+
+  seen.delete(err);
+
+  return serialized;
+}
+
+/**
+ * Convert an error property value to a value which can be sent over IPC.
+ *
+ * @param value Property value.
+ * @param seen Values being serialized, used to detect circular references.
+ * @returns Serializable value or undefined if the value can not be serialized.
+ */
+function toSerializable(value: unknown, seen: Set<unknown>): unknown {
+  if (value instanceof Error) {
+    return seen.has(value) ? '[Circular]' : serializeErrorValue(value, seen);
+  }
+
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  const json = value as { toJSON?: () => unknown };
+
+  if (typeof json.toJSON === 'function') {
+    return json.toJSON();
+  }
+
+  seen.add(value);
+
+  let result: unknown;
+
+  if (Array.isArray(value)) {
+    result = value.map((item) => toSerializable(item, seen));
+  } else {
+    const object: Record<string, unknown> = {};
+
+    Object.keys(value).forEach((key) => {
+      const item = toSerializable(
+        (value as Record<string, unknown>)[key],
+        seen,
+      );
+
+      if (item !== undefined) {
+        setOwnProperty(object, key, item);
+      }
+    });
+
+    result = object;
+  }
+
+  seen.delete(value);
+
+  return result;
+}
+
+/**
+ * Convert a serialized remote error to an error instance.
+ * Errors of registered classes are revived as instances of the class, keeping the remote stack.
+ *
+ * @param remoteError Serialized error.
+ * @returns Instance of the registered error class, otherwise RemoteError.
+ */
+export function deserializeError(remoteError: SerializedError): Error {
+  const errorClass =
+    remoteError.name !== undefined
+      ? getRegisteredError(remoteError.name)
+      : undefined;
+
+  if (!errorClass) {
+    return new RemoteError(remoteError.message, remoteError);
+  }
+
+  const { name, message, stack, cause, errors } = remoteError;
+  const err = Object.create(errorClass.prototype) as Error;
+
+  Object.keys(remoteError)
+    .filter((key) => !RESERVED_KEYS.includes(key))
+    .forEach((key) => setOwnProperty(err, key, remoteError[key]));
+
+  defineHidden(err, 'message', message);
+  defineHidden(err, 'stack', stack);
+
+  if (name !== err.name) {
+    defineHidden(err, 'name', name);
+  }
+
+  if (cause !== undefined) {
+    defineHidden(err, 'cause', deserializeError(cause));
+  }
+
+  if (errors !== undefined) {
+    defineHidden(err, 'errors', errors.map(deserializeError));
+  }
+
+  return err;
+}
+
+function defineHidden(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: false,
+  });
 }
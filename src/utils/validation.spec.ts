@@ -5,6 +5,19 @@ import {
   isIpcInput,
   isIpcOutput,
   isIpcEvent,
+  isIpcStreamChunk,
+  isIpcStreamEnd,
+  isIpcStreamError,
+  isIpcStreamPull,
+  isIpcCancel,
+  isIpcProgress,
+  isIpcRpcNames,
+  isIpcSubscriptions,
+  isIpcPing,
+  isIpcPong,
+  isIpcBatch,
+  isIpcCallbackRelease,
+  isIpcFragment,
 } from './validation';
 
 describe('assertValidIpcName()', function () {
@@ -93,3 +106,186 @@ describe('isIpcEvent()', function () {
     ).toEqual(false);
   });
 });
+
+describe('isIpcRpcNames()', function () {
+  it('should return true on a valid RPC names object.', function () {
+    expect(
+      isIpcRpcNames({
+        type: IpcDataType.RpcNames,
+        names: ['hello'],
+      }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid RPC names object.', function () {
+    expect(isIpcRpcNames(null)).toEqual(false);
+    expect(
+      isIpcRpcNames({ type: IpcDataType.RpcNames, names: 'hello' }),
+    ).toEqual(false);
+  });
+});
+
+describe('isIpcSubscriptions()', function () {
+  it('should return true on a valid subscriptions object.', function () {
+    expect(
+      isIpcSubscriptions({
+        type: IpcDataType.Subscriptions,
+        events: ['job.*'],
+      }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid subscriptions object.', function () {
+    expect(isIpcSubscriptions(null)).toEqual(false);
+    expect(
+      isIpcSubscriptions({ type: IpcDataType.RpcNames, events: [] }),
+    ).toEqual(false);
+  });
+});
+
+describe('isIpcCancel()', function () {
+  it('should return true on a valid cancel object.', function () {
+    expect(
+      isIpcCancel({
+        type: IpcDataType.Cancel,
+        name: 'hello',
+        correlationId: '123',
+      }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid cancel object.', function () {
+    expect(isIpcCancel(undefined)).toEqual(false);
+    expect(isIpcCancel({ name: 'hello', type: IpcDataType.Cancel })).toEqual(
+      false,
+    );
+  });
+});
+
+describe('isIpcProgress()', function () {
+  it('should return true on a valid progress frame.', function () {
+    expect(
+      isIpcProgress({
+        type: IpcDataType.Progress,
+        name: 'hello',
+        correlationId: '123',
+        event: 'percent',
+        data: 50,
+      }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid progress frame.', function () {
+    expect(isIpcProgress(null)).toEqual(false);
+    expect(
+      isIpcProgress({
+        type: IpcDataType.Progress,
+        name: 'hello',
+        correlationId: '123',
+      }),
+    ).toEqual(false);
+  });
+});
+
+describe('isIpcStream*()', function () {
+  it('should return true on valid stream frames.', function () {
+    const frame = { name: 'hello', correlationId: '123' };
+
+    expect(
+      isIpcStreamChunk({ ...frame, type: IpcDataType.StreamChunk }),
+    ).toEqual(true);
+    expect(isIpcStreamEnd({ ...frame, type: IpcDataType.StreamEnd })).toEqual(
+      true,
+    );
+    expect(
+      isIpcStreamError({ ...frame, type: IpcDataType.StreamError }),
+    ).toEqual(true);
+    expect(isIpcStreamPull({ ...frame, type: IpcDataType.StreamPull })).toEqual(
+      true,
+    );
+  });
+
+  it('should return false on invalid stream frames.', function () {
+    expect(isIpcStreamChunk(null)).toEqual(false);
+    expect(
+      isIpcStreamEnd({
+        name: 'hello',
+        correlationId: '123',
+        type: IpcDataType.StreamChunk,
+      }),
+    ).toEqual(false);
+  });
+});
+
+describe('isIpcPing() and isIpcPong()', function () {
+  it('should return true on valid heartbeat frames.', function () {
+    expect(isIpcPing({ id: 1, type: IpcDataType.Ping })).toEqual(true);
+    expect(isIpcPong({ id: 1, type: IpcDataType.Pong })).toEqual(true);
+  });
+
+  it('should return false on invalid heartbeat frames.', function () {
+    expect(isIpcPing(null)).toEqual(false);
+    expect(isIpcPing({ type: IpcDataType.Ping })).toEqual(false);
+    expect(isIpcPong({ id: 1, type: IpcDataType.Ping })).toEqual(false);
+  });
+});
+
+describe('isIpcBatch()', function () {
+  it('should return true on a valid batch frame.', function () {
+    expect(isIpcBatch({ frames: [], type: IpcDataType.Batch })).toEqual(true);
+  });
+
+  it('should return false on an invalid batch frame.', function () {
+    expect(isIpcBatch(null)).toEqual(false);
+    expect(isIpcBatch({ type: IpcDataType.Batch })).toEqual(false);
+    expect(isIpcBatch({ frames: [], type: IpcDataType.Event })).toEqual(false);
+  });
+});
+
+describe('isIpcCallbackRelease()', function () {
+  it('should return true on a valid callback release frame.', function () {
+    expect(
+      isIpcCallbackRelease({ id: '123', type: IpcDataType.CallbackRelease }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid callback release frame.', function () {
+    expect(isIpcCallbackRelease(null)).toEqual(false);
+    expect(isIpcCallbackRelease({ type: IpcDataType.CallbackRelease })).toEqual(
+      false,
+    );
+  });
+});
+
+describe('isIpcFragment()', function () {
+  it('should return true on a valid fragment frame.', function () {
+    expect(
+      isIpcFragment({
+        id: '123',
+        index: 0,
+        count: 2,
+        size: 10,
+        data: new Uint8Array(5),
+        encoding: 'json',
+        type: IpcDataType.Fragment,
+      }),
+    ).toEqual(true);
+  });
+
+  it('should return false on an invalid fragment frame.', function () {
+    expect(isIpcFragment(null)).toEqual(false);
+    expect(isIpcFragment({ id: '123', type: IpcDataType.Fragment })).toEqual(
+      false,
+    );
+    expect(
+      isIpcFragment({
+        id: '123',
+        index: 0,
+        count: 2,
+        size: 10,
+        encoding: 'xml',
+        type: IpcDataType.Fragment,
+      }),
+    ).toEqual(false);
+  });
+});
@@ -4,6 +4,19 @@ import {
   IpcOutput,
   IpcEvent,
   IpcHandler,
+  IpcStreamChunk,
+  IpcStreamEnd,
+  IpcStreamError,
+  IpcStreamPull,
+  IpcCancel,
+  IpcProgress,
+  IpcRpcNames,
+  IpcSubscriptions,
+  IpcPing,
+  IpcPong,
+  IpcBatch,
+  IpcCallbackRelease,
+  IpcFragment,
 } from '../types';
 
 export function assertValidIpcName(name: unknown): name is string {
@@ -63,3 +76,132 @@ export function isIpcEvent(data: unknown): data is IpcEvent {
 
   return 'name' in event && 'type' in event && event.type === IpcDataType.Event;
 }
+
+export function isIpcRpcNames(data: unknown): data is IpcRpcNames {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const rpcNames = data as Record<string, unknown>;
+
+  return (
+    Array.isArray(rpcNames.names) &&
+    'type' in rpcNames &&
+    rpcNames.type === IpcDataType.RpcNames
+  );
+}
+
+export function isIpcSubscriptions(data: unknown): data is IpcSubscriptions {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const subscriptions = data as Record<string, unknown>;
+
+  return (
+    Array.isArray(subscriptions.events) &&
+    subscriptions.type === IpcDataType.Subscriptions
+  );
+}
+
+export function isIpcPing(data: unknown): data is IpcPing {
+  return isHeartbeatFrame(data, IpcDataType.Ping);
+}
+
+export function isIpcPong(data: unknown): data is IpcPong {
+  return isHeartbeatFrame(data, IpcDataType.Pong);
+}
+
+export function isIpcBatch(data: unknown): data is IpcBatch {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const batch = data as Record<string, unknown>;
+
+  return Array.isArray(batch.frames) && batch.type === IpcDataType.Batch;
+}
+
+export function isIpcCallbackRelease(
+  data: unknown,
+): data is IpcCallbackRelease {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const release = data as Record<string, unknown>;
+
+  return (
+    typeof release.id === 'string' &&
+    release.type === IpcDataType.CallbackRelease
+  );
+}
+
+function isHeartbeatFrame(data: unknown, type: IpcDataType): boolean {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const frame = data as Record<string, unknown>;
+
+  return typeof frame.id === 'number' && frame.type === type;
+}
+
+function isCorrelatedFrame(data: unknown, type: IpcDataType): boolean {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const frame = data as Record<string, unknown>;
+
+  return (
+    'correlationId' in frame &&
+    'name' in frame &&
+    'type' in frame &&
+    frame.type === type
+  );
+}
+
+export function isIpcCancel(data: unknown): data is IpcCancel {
+  return isCorrelatedFrame(data, IpcDataType.Cancel);
+}
+
+export function isIpcProgress(data: unknown): data is IpcProgress {
+  return (
+    isCorrelatedFrame(data, IpcDataType.Progress) &&
+    typeof (data as Record<string, unknown>).event === 'string'
+  );
+}
+
+export function isIpcStreamChunk(data: unknown): data is IpcStreamChunk {
+  return isCorrelatedFrame(data, IpcDataType.StreamChunk);
+}
+
+export function isIpcStreamEnd(data: unknown): data is IpcStreamEnd {
+  return isCorrelatedFrame(data, IpcDataType.StreamEnd);
+}
+
+export function isIpcStreamError(data: unknown): data is IpcStreamError {
+  return isCorrelatedFrame(data, IpcDataType.StreamError);
+}
+
+export function isIpcStreamPull(data: unknown): data is IpcStreamPull {
+  return isCorrelatedFrame(data, IpcDataType.StreamPull);
+}
+
+export function isIpcFragment(data: unknown): data is IpcFragment {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const fragment = data as Record<string, unknown>;
+
+  return (
+    typeof fragment.id === 'string' &&
+    typeof fragment.index === 'number' &&
+    typeof fragment.count === 'number' &&
+    typeof fragment.size === 'number' &&
+    (fragment.encoding === 'json' || fragment.encoding === 'advanced') &&
+    fragment.type === IpcDataType.Fragment
+  );
+}